@@ -0,0 +1,114 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { ANONYMOUS_CALLER, authenticate, canReadTicket, hasPermission, type Caller } from "./auth.js";
+import { createConfig } from "./config.js";
+import { createServer } from "./server.js";
+import { MemoryTicketStore, type Ticket } from "./tickets.js";
+
+const config = createConfig({
+  auth: {
+    keys: [
+      { name: "web-form", key: "form-key-0123456789", roles: ["submitter"] },
+      { name: "alice", key: "alice-key-0123456789", roles: ["agent"] },
+    ],
+  },
+});
+
+const form: Caller = { name: "web-form", roles: ["submitter"] };
+const alice: Caller = { name: "alice", roles: ["agent"] };
+
+function ticket(submittedBy?: string): Ticket {
+  return {
+    id: "CS-000001",
+    name: "Ada",
+    issue: "Cannot log in",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    ...(submittedBy && { submittedBy }),
+    customFields: {},
+    attachments: [],
+    createdAt: "2026-10-19T10:00:00.000Z",
+    updatedAt: "2026-10-19T10:00:00.000Z",
+    history: [],
+  };
+}
+
+describe("authenticate", () => {
+  it("finds the key a token belongs to", () => {
+    expect(authenticate(config, "alice-key-0123456789")).toEqual(alice);
+    expect(authenticate(config, "alice-key-012345678")).toBeUndefined();
+    expect(authenticate(config, "")).toBeUndefined();
+  });
+});
+
+describe("hasPermission", () => {
+  it("gives each role its permissions", () => {
+    expect(hasPermission(form, "create_ticket")).toBe(true);
+    expect(hasPermission(form, "read_all_tickets")).toBe(false);
+    expect(hasPermission(form, "manage_outbox")).toBe(false);
+    expect(hasPermission(alice, "manage_outbox")).toBe(true);
+  });
+
+  it("trusts a missing caller and lets an anonymous one only submit", () => {
+    expect(hasPermission(undefined, "update_ticket")).toBe(true);
+    expect(hasPermission(ANONYMOUS_CALLER, "create_ticket")).toBe(true);
+    expect(hasPermission(ANONYMOUS_CALLER, "read_own_tickets")).toBe(false);
+    expect(hasPermission(ANONYMOUS_CALLER, "read_all_tickets")).toBe(false);
+  });
+});
+
+describe("canReadTicket", () => {
+  it("lets submitters read only their own tickets", () => {
+    expect(canReadTicket(form, ticket("web-form"))).toBe(true);
+    expect(canReadTicket(form, ticket("other-form"))).toBe(false);
+    expect(canReadTicket(form, ticket())).toBe(false);
+  });
+
+  it("lets agents read every ticket and anonymous callers none", () => {
+    expect(canReadTicket(alice, ticket("web-form"))).toBe(true);
+    expect(canReadTicket(ANONYMOUS_CALLER, ticket("anonymous"))).toBe(false);
+    expect(canReadTicket(ANONYMOUS_CALLER, ticket())).toBe(false);
+  });
+});
+
+describe("an anonymous HTTP caller", () => {
+  async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+    const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+    const [content] = result.content;
+    return { isError: result.isError ?? false, text: content.type === "text" ? content.text : "" };
+  }
+
+  it("may submit tickets but not read them or see the outbox", async () => {
+    const store = new MemoryTicketStore("ANON");
+    const server = createServer(
+      {
+        storage: { type: "memory", path: "data/auth-test.json", idPrefix: "ANON" },
+        channels: [{ type: "custom", name: "test", deliver: async () => "Received." }],
+      },
+      { store, caller: ANONYMOUS_CALLER, client: "203.0.113.7" },
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    const submitted = await call(client, "customer_support", { name: "Ada", issue: "The export button does nothing" });
+    expect(submitted.isError).toBe(false);
+    const [stored] = await store.list();
+    expect(stored.submittedBy).toBeUndefined();
+
+    for (const [tool, args] of [
+      ["list_tickets", {}],
+      ["search_tickets", { query: "export" }],
+      ["get_ticket", { id: stored.id }],
+      ["outbox_status", {}],
+    ] as const) {
+      const result = await call(client, tool, args);
+      expect(result.isError, tool).toBe(true);
+      expect(result.text, tool).toContain("Forbidden");
+    }
+  });
+});
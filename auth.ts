@@ -0,0 +1,109 @@
+/**
+ * @file API-key authentication and role checks.
+ *
+ * The HTTP transport turns the key presented with a request into a
+ * {@link Caller}, and every tool checks the caller's permissions before
+ * doing anything. Without configured keys, HTTP requests come from
+ * {@link ANONYMOUS_CALLER}, which may only submit tickets. Servers created
+ * without a caller — stdio, or embedded with `createServer()` — are
+ * trusted and may do everything.
+ */
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { AppConfig, Role } from "./config.js";
+import type { Ticket } from "./tickets.js";
+
+/** The holder of an API key, as established by the HTTP transport. */
+export interface Caller {
+  name: string;
+  roles: Role[];
+  /** Set for HTTP requests made without an API key */
+  anonymous?: boolean;
+}
+
+export type Permission =
+  | "create_ticket"
+  | "read_own_tickets"
+  | "read_all_tickets"
+  | "update_ticket"
+  | "add_comment"
+  | "view_internal_notes"
+  | "manage_outbox";
+
+/**
+ * The caller of an HTTP request when no API keys are configured. It may
+ * submit tickets but read none, not even its own: without a key there is
+ * nothing to tell one anonymous submitter from another.
+ */
+export const ANONYMOUS_CALLER: Caller = { name: "anonymous", roles: [], anonymous: true };
+
+const ANONYMOUS_PERMISSIONS: Permission[] = ["create_ticket"];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  submitter: ["create_ticket", "read_own_tickets", "add_comment"],
+  agent: [
+    "create_ticket",
+    "read_own_tickets",
+    "read_all_tickets",
+    "update_ticket",
+    "add_comment",
+    "view_internal_notes",
+    "manage_outbox",
+  ],
+};
+
+/** Whether requests must present an API key. */
+export function authRequired(config: AppConfig): boolean {
+  return config.auth.keys.length > 0;
+}
+
+/** The key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`. */
+export function tokenFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim() || undefined;
+  }
+  const apiKey = headers["x-api-key"];
+  return typeof apiKey === "string" && apiKey ? apiKey : undefined;
+}
+
+// Hashing first gives both sides the same length for timingSafeEqual
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Find the configured key matching a token. Resolves to undefined for an
+ * unknown token. Keys are compared in constant time.
+ */
+export function authenticate(config: AppConfig, token: string): Caller | undefined {
+  const presented = digest(token);
+  const match = config.auth.keys.find((k) => timingSafeEqual(digest(k.key), presented));
+  return match && { name: match.name, roles: match.roles };
+}
+
+/**
+ * Whether a token is the inbound email secret. Always true when no secret
+ * is configured.
+ */
+export function inboundTokenMatches(config: AppConfig, token: string | undefined): boolean {
+  if (!config.inbound.token) return true;
+  return token !== undefined && timingSafeEqual(digest(config.inbound.token), digest(token));
+}
+
+/** Whether the caller may do something. A missing caller is trusted. */
+export function hasPermission(caller: Caller | undefined, permission: Permission): boolean {
+  if (!caller) return true;
+  if (caller.anonymous) return ANONYMOUS_PERMISSIONS.includes(permission);
+  return caller.roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/** Whether the caller may see a ticket: any ticket, or only ones they submitted. */
+export function canReadTicket(caller: Caller | undefined, ticket: Ticket): boolean {
+  if (hasPermission(caller, "read_all_tickets")) return true;
+  return (
+    hasPermission(caller, "read_own_tickets") &&
+    ticket.submittedBy !== undefined &&
+    ticket.submittedBy === caller?.name
+  );
+}
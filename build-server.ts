@@ -14,7 +14,7 @@ async function main() {
     platform: "node",
     target: "node18",
     format: "esm",
-    external: ["nodemailer"],
+    external: ["nodemailer", "handlebars", "mailparser"],
     banner: { js: "import { createRequire } from 'module'; const require = createRequire(import.meta.url);" },
   });
 
@@ -26,7 +26,7 @@ async function main() {
     platform: "node",
     target: "node18",
     format: "esm",
-    external: ["./server.js", "nodemailer"],
+    external: ["./server.js", "nodemailer", "handlebars", "mailparser"],
     banner: { js: "#!/usr/bin/env node\nimport { createRequire } from 'module'; const require = createRequire(import.meta.url);" },
   });
 
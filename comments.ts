@@ -0,0 +1,160 @@
+/**
+ * @file Ticket conversations and email threading.
+ *
+ * Comments are appended to a ticket. Public ones are emailed through the
+ * outbox — team replies to the customer, customer comments to the team —
+ * and internal notes stay on the ticket for agents only. Every email about
+ * a ticket gets a Message-ID derived from the ticket ID, and In-Reply-To /
+ * References point at the earlier messages, so mail clients group the
+ * whole conversation into one thread.
+ */
+import type { AppConfig } from "./config.js";
+import type {
+  Attachment,
+  CommentVisibility,
+  SlaEscalation,
+  Ticket,
+  TicketChange,
+  TicketComment,
+  TicketRedaction,
+} from "./tickets.js";
+
+export interface NewComment {
+  author: string;
+  from: TicketComment["from"];
+  visibility: CommentVisibility;
+  body: string;
+  /** Message-ID of the email the comment arrived in, if any */
+  messageId?: string;
+  /** Message-ID that email replied to */
+  inReplyTo?: string;
+  /** Files that came with it, already saved with `storeAttachments` */
+  attachments?: Attachment[];
+  /** Sensitive data already taken out of the body */
+  redactions?: TicketRedaction[];
+}
+
+/** One event in a ticket's history, as shown by `get_ticket_timeline`. */
+export type TimelineEntry =
+  | { type: "submitted"; at: string; by: string }
+  | ({ type: "change"; at: string; by: string } & Pick<TicketChange, "field" | "from" | "to" | "note">)
+  | ({ type: "comment"; at: string } & Omit<TicketComment, "createdAt">)
+  | ({ type: "escalation"; at: string } & Omit<SlaEscalation, "escalatedAt">);
+
+/** The domain part of generated Message-IDs: that of the sending address. */
+function messageDomain(config: AppConfig): string {
+  const sender = config.smtp.auth.user.includes("@") ? config.smtp.auth.user : config.supportEmail;
+  return sender.split("@")[1] || "localhost";
+}
+
+/**
+ * Message-ID of an email in a ticket's thread: `<cs-000123@example.com>`
+ * for the acknowledgement, which starts the customer's thread,
+ * `<cs-000123.ticket@…>` for the email to the team and `<cs-000123.c4@…>`
+ * for comment 4.
+ */
+export function threadMessageId(ticket: Pick<Ticket, "id">, config: AppConfig, part?: string): string {
+  return `<${ticket.id.toLowerCase()}${part ? `.${part}` : ""}@${messageDomain(config)}>`;
+}
+
+// Team replies continue the customer's thread, customer comments the team's
+function threadRoot(ticket: Ticket, config: AppConfig, from: TicketComment["from"]): string {
+  return threadMessageId(ticket, config, from === "team" ? undefined : "ticket");
+}
+
+/**
+ * Append a comment to a ticket. Public comments get a Message-ID and
+ * reply to the previous public message in the thread.
+ *
+ * @throws Error when the comment is empty.
+ */
+export function addComment(ticket: Ticket, input: NewComment, config: AppConfig): TicketComment {
+  const body = input.body.trim();
+  if (!body) throw new Error("A comment needs some text.");
+
+  const comments = ticket.comments ?? [];
+  const id = (comments[comments.length - 1]?.id ?? 0) + 1;
+  const comment: TicketComment = {
+    id,
+    author: input.author,
+    from: input.from,
+    visibility: input.visibility,
+    body,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (input.visibility === "public") {
+    const previous = comments.filter((c) => c.visibility === "public").pop();
+    comment.messageId = input.messageId ?? threadMessageId(ticket, config, `c${id}`);
+    comment.inReplyTo = input.inReplyTo ?? previous?.messageId ?? threadRoot(ticket, config, input.from);
+  } else if (input.messageId) {
+    // Kept so a redelivered email is not added twice
+    comment.messageId = input.messageId;
+  }
+
+  if (input.redactions?.length) comment.redactions = input.redactions;
+
+  if (input.attachments?.length) {
+    comment.attachments = input.attachments.map((file) => file.filename);
+    ticket.attachments.push(...input.attachments.map((file) => ({ ...file, commentId: id })));
+  }
+
+  ticket.comments = [...comments, comment];
+  return comment;
+}
+
+/**
+ * The References header for a comment's email: the start of the thread
+ * and every earlier public message.
+ */
+export function threadReferences(ticket: Ticket, config: AppConfig, comment: TicketComment): string[] {
+  const earlier = (ticket.comments ?? [])
+    .filter((c) => c.id < comment.id && c.visibility === "public" && c.messageId)
+    .map((c) => c.messageId as string);
+  return [threadRoot(ticket, config, comment.from), ...earlier];
+}
+
+/**
+ * A ticket without its internal notes and their files, for callers who may
+ * not see them.
+ */
+export function withoutInternalNotes<
+  T extends Pick<Ticket, "comments"> & { attachments: Pick<Attachment, "commentId">[] },
+>(ticket: T): T {
+  if (!ticket.comments) return ticket;
+  const comments = ticket.comments.filter((c) => c.visibility === "public");
+  return {
+    ...ticket,
+    comments,
+    attachments: ticket.attachments.filter(
+      (a) => a.commentId === undefined || comments.some((c) => c.id === a.commentId),
+    ),
+  };
+}
+
+/**
+ * Everything that happened to a ticket, oldest first: the submission,
+ * field changes and comments, plus internal notes and SLA escalations when
+ * `includeInternal` is set.
+ */
+export function ticketTimeline(ticket: Ticket, includeInternal: boolean): TimelineEntry[] {
+  const entries: TimelineEntry[] = ticket.history.map(({ changedAt, changedBy, ...change }) =>
+    change.from === null && change.field === "status"
+      ? { type: "submitted", at: changedAt, by: changedBy }
+      : { type: "change", at: changedAt, by: changedBy, ...change },
+  );
+
+  for (const { createdAt, ...comment } of ticket.comments ?? []) {
+    if (comment.visibility === "public" || includeInternal) {
+      entries.push({ type: "comment", at: createdAt, ...comment });
+    }
+  }
+  if (includeInternal) {
+    for (const { escalatedAt, ...escalation } of ticket.slaEscalations ?? []) {
+      entries.push({ type: "escalation", at: escalatedAt, ...escalation });
+    }
+  }
+
+  // Array.prototype.sort is stable, so same-time entries keep their order
+  return entries.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
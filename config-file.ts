@@ -0,0 +1,725 @@
+/**
+ * @file Loading, validating and watching configuration files.
+ *
+ * `main.ts --config support.yaml` reads a JSON or YAML file with the same
+ * shape as `AppConfig` (every section optional), substitutes environment
+ * variables, merges it over the defaults with {@link createConfig} and
+ * validates the result. Invalid configs fail at startup with one line per
+ * problem instead of surfacing later as NaN ports or unknown statuses.
+ */
+import { watch } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+  type AppConfig,
+  type ConfigFile,
+  type CustomChannelConfig,
+  createConfig,
+} from "./config.js";
+import { isValidTimeZone } from "./i18n.js";
+
+/** Sections that only take effect on restart — they own open files and timers. */
+const RESTART_ONLY: (keyof AppConfig)[] = ["storage", "outbox"];
+
+/** Environment variables behind the default config, named in error messages. */
+const ENV_SOURCES: Record<string, string> = {
+  "smtp.host": "SMTP_HOST",
+  "smtp.port": "SMTP_PORT",
+  "smtp.secure": "SMTP_SECURE",
+  supportEmail: "SUPPORT_EMAIL",
+  "storage.path": "TICKET_STORE_PATH",
+  "outbox.path": "OUTBOX_PATH",
+  "inbound.enabled": "INBOUND_EMAIL",
+  "drafts.enabled": "DRAFT_MODE",
+  "triage.enabled": "TRIAGE_SUGGESTIONS",
+  "redaction.hashKey": "REDACTION_HASH_KEY",
+};
+
+/** Ticket fields a custom field must not shadow. */
+const RESERVED_FIELD_KEYS = ["name", "issue", "priority", "category", "locale", "timeZone"];
+
+// Interpolated values are always strings, so numbers and booleans also
+// accept their string form ("587", "true").
+function integer(message: string) {
+  return z.preprocess(
+    (v) => (typeof v === "string" && /^-?\d+$/.test(v.trim()) ? Number(v) : v),
+    z.number({ error: message }).int(message),
+  );
+}
+
+const boolean = z.preprocess(
+  (v) => (v === "true" ? true : v === "false" ? false : v),
+  z.boolean({ error: 'Expected true or false' }),
+);
+
+const nonEmpty = z.string().min(1, "Must not be empty");
+const hexColor = z.string().regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, "Expected a hex colour, e.g. #2563eb");
+const email = z.string().regex(z.regexes.email, "Expected an email address");
+const templateSource = z.union([z.string(), z.strictObject({ file: nonEmpty })]);
+
+const brandSchema = z.strictObject({
+  name: nonEmpty,
+  primaryColor: hexColor,
+  secondaryColor: hexColor,
+  logoUrl: z.url("Expected a URL").optional(),
+  tagline: z.string(),
+  voice: z.string().optional(),
+});
+
+const smtpSchema = z.strictObject({
+  host: nonEmpty,
+  port: integer("Expected a port number").refine(
+    (port) => port >= 1 && port <= 65535,
+    "Expected a port number between 1 and 65535",
+  ),
+  secure: boolean,
+  auth: z.strictObject({ user: z.string(), pass: z.string() }),
+});
+
+const storageSchema = z.strictObject({
+  type: z.enum(["file", "memory"]),
+  path: nonEmpty,
+  idPrefix: z.string().regex(/^[A-Za-z0-9]+$/, "Expected letters and digits only, e.g. CS"),
+});
+
+const outboxSchema = z.strictObject({
+  path: nonEmpty,
+  maxAttempts: integer("Expected a whole number").refine((n) => n >= 1, "Must be at least 1"),
+  retryDelayMs: integer("Expected milliseconds").refine((n) => n >= 0, "Must not be negative"),
+  maxRetryDelayMs: integer("Expected milliseconds").refine((n) => n >= 0, "Must not be negative"),
+  pollIntervalMs: integer("Expected milliseconds").refine((n) => n >= 100, "Must be at least 100"),
+});
+
+const authSchema = z.strictObject({
+  keys: z.array(
+    z.strictObject({
+      name: nonEmpty,
+      key: z.string().min(16, "API keys must be at least 16 characters"),
+      roles: z.array(z.enum(["submitter", "agent"])).min(1, "Give the key at least one role"),
+    }),
+  ),
+});
+
+const httpSchema = z.strictObject({
+  corsOrigins: z.array(
+    z.union([z.literal("*"), z.url("Expected an origin such as https://app.example.com")]),
+  ),
+});
+
+const rateLimitSchema = z.strictObject({
+  max: integer("Expected a whole number").refine((n) => n >= 0, "Must not be negative"),
+  windowMs: integer("Expected milliseconds").refine((n) => n >= 1000, "Must be at least 1000"),
+});
+
+const protectionSchema = z.strictObject({
+  perClient: rateLimitSchema,
+  perEmail: rateLimitSchema,
+  spam: z.strictObject({
+    threshold: z.number().min(0, "Must not be negative"),
+    honeypotField: z.string().regex(/^([A-Za-z_][A-Za-z0-9_]*)?$/, "Expected a field key, or \"\" to turn it off"),
+    blockedWords: z.array(nonEmpty),
+  }),
+  duplicates: z.strictObject({
+    windowMs: integer("Expected milliseconds").refine((n) => n >= 0, "Must not be negative"),
+    similarity: z.number().min(0).max(1, "Expected a share between 0 and 1"),
+  }),
+});
+
+const routingSchema = z.strictObject({
+  mode: z.enum(["first", "all"]),
+  rules: z.array(
+    z.strictObject({
+      name: nonEmpty,
+      match: z.strictObject({
+        categories: z.array(nonEmpty).optional(),
+        priorities: z.array(nonEmpty).optional(),
+        fields: z.record(z.string(), z.array(z.string())).optional(),
+        keywords: z.array(nonEmpty).optional(),
+      }),
+      to: z.array(email).optional(),
+      cc: z.array(email).optional(),
+      assignee: nonEmpty.optional(),
+      priority: nonEmpty.optional(),
+      tags: z.array(nonEmpty).optional(),
+    }),
+  ),
+});
+
+const triageSchema = z.strictObject({
+  enabled: boolean,
+  rules: z.array(
+    z.strictObject({
+      name: nonEmpty,
+      keywords: z.array(nonEmpty).optional(),
+      // Tried with the flags the classifier uses
+      patterns: z
+        .array(
+          z.string().refine((p) => {
+            try {
+              new RegExp(p, "iu");
+              return true;
+            } catch {
+              return false;
+            }
+          }, "Not a valid regular expression"),
+        )
+        .optional(),
+      category: nonEmpty.optional(),
+      priority: nonEmpty.optional(),
+      tags: z.array(nonEmpty).optional(),
+      weight: z.number().positive("Must be more than 0").optional(),
+    }),
+  ),
+  learn: boolean,
+  minExamples: integer("Expected a whole number").refine((n) => n >= 1, "Must be at least 1"),
+  minConfidence: z.number().min(0).max(1, "Expected a share between 0 and 1"),
+});
+
+const redactionSchema = z.strictObject({
+  enabled: boolean,
+  rules: z.array(
+    z.strictObject({
+      name: nonEmpty,
+      detect: z.enum(["creditCard", "secret", "nationalId", "pattern"]),
+      pattern: z
+        .string()
+        .refine((p) => {
+          try {
+            new RegExp(p, "dgiu");
+            return true;
+          } catch {
+            return false;
+          }
+        }, "Not a valid regular expression")
+        .optional(),
+      action: z.enum(["mask", "hash", "reject"]),
+    }),
+  ),
+  hashKey: z.string(),
+});
+
+const clockTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Expected a time of day as HH:MM");
+
+const timeZone = z.string().refine(isValidTimeZone, "Expected an IANA time zone, e.g. Europe/Berlin");
+
+const locale = z.string().refine((tag) => {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1;
+  } catch {
+    return false;
+  }
+}, "Expected a locale, e.g. en or de-CH");
+
+const businessHoursSchema = z
+  .strictObject({
+    timeZone,
+    days: z
+      .array(integer("Expected a day number").refine((d) => d >= 0 && d <= 6, "Expected 0 (Sunday) to 6 (Saturday)"))
+      .min(1, "At least one working day is required"),
+    start: clockTime,
+    end: clockTime,
+    holidays: z.array(
+      z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD"),
+    ),
+  })
+  .refine((hours) => hours.start < hours.end, { path: ["end"], message: "Must be after start" });
+
+const hours = z.number().positive("Must be more than 0 hours");
+
+const slaSchema = z.strictObject({
+  policies: z.array(
+    z
+      .strictObject({
+        priority: nonEmpty,
+        category: nonEmpty.optional(),
+        firstResponseHours: hours.optional(),
+        resolutionHours: hours.optional(),
+      })
+      .refine(
+        (p) => p.firstResponseHours !== undefined || p.resolutionHours !== undefined,
+        "Set firstResponseHours, resolutionHours or both",
+      ),
+  ),
+  businessHours: businessHoursSchema,
+  resolvedStatuses: z.array(nonEmpty),
+  warnAt: z.number().gt(0, "Expected a share between 0 and 1").max(1, "Expected a share between 0 and 1"),
+  checkIntervalMs: integer("Expected milliseconds").refine((n) => n >= 1000, "Must be at least 1000"),
+  escalateTo: z.array(email),
+  breachEscalateTo: z.array(email),
+});
+
+const i18nSchema = z.strictObject({
+  defaultLocale: locale,
+  locales: z.array(locale).min(1, "At least one locale is required"),
+  timeZone,
+  messages: z.record(locale, z.record(z.string(), z.string())),
+});
+
+const channelSchema = z.discriminatedUnion(
+  "type",
+  [
+    z.strictObject({ type: z.literal("smtp"), name: nonEmpty.optional(), to: email.optional() }),
+    z.strictObject({ type: z.literal("chat"), name: nonEmpty.optional(), url: z.url("Expected a URL") }),
+    z.strictObject({
+      type: z.literal("http"),
+      name: nonEmpty.optional(),
+      url: z.url("Expected a URL"),
+      headers: z.record(z.string(), z.string()).optional(),
+    }),
+    z.strictObject({ type: z.literal("file"), name: nonEmpty.optional(), path: nonEmpty }),
+    z.strictObject({
+      type: z.literal("custom"),
+      name: nonEmpty,
+      deliver: z.custom<CustomChannelConfig["deliver"]>(
+        (v) => typeof v === "function",
+        "Custom channels must be configured in code",
+      ),
+    }),
+  ],
+  { error: "Expected a channel type of smtp, chat, http, file or custom" },
+);
+
+const templateSetSchema = z.strictObject({
+  subject: templateSource.optional(),
+  text: templateSource.optional(),
+  html: templateSource.optional(),
+});
+
+const fieldConditionSchema = z.strictObject({
+  categories: z.array(nonEmpty).optional(),
+  priorities: z.array(nonEmpty).optional(),
+  fields: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+const fieldSchema = z.strictObject({
+  key: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Expected a key made of letters, digits and _"),
+  label: nonEmpty,
+  type: z.enum(["text", "email", "tel", "number", "textarea", "select", "attachment"]),
+  placeholder: z.string(),
+  required: boolean,
+  visibleWhen: fieldConditionSchema.optional(),
+  requiredWhen: fieldConditionSchema.optional(),
+  options: z.array(nonEmpty).optional(),
+  validation: z
+    .strictObject({
+      pattern: z
+        .string()
+        .refine((p) => {
+          try {
+            new RegExp(p);
+            return true;
+          } catch {
+            return false;
+          }
+        }, "Not a valid regular expression")
+        .optional(),
+      patternMessage: z.string().optional(),
+      minLength: integer("Expected a whole number").optional(),
+      maxLength: integer("Expected a whole number").optional(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      format: z.enum(["email", "phone"]).optional(),
+    })
+    .optional(),
+  attachments: z
+    .strictObject({
+      maxSizeBytes: integer("Expected a size in bytes").optional(),
+      maxFiles: integer("Expected a whole number").optional(),
+      allowedTypes: z.array(nonEmpty).optional(),
+    })
+    .optional(),
+});
+
+const appConfigSchema = z
+  .strictObject({
+    brand: brandSchema,
+    smtp: smtpSchema,
+    storage: storageSchema,
+    outbox: outboxSchema,
+    auth: authSchema,
+    http: httpSchema,
+    protection: protectionSchema,
+    supportEmail: email,
+    channels: z.array(channelSchema),
+    routing: routingSchema,
+    emailSubjectTemplate: nonEmpty,
+    emailTemplates: z.strictObject({
+      text: templateSource.optional(),
+      html: templateSource.optional(),
+      categories: z.record(z.string(), templateSetSchema).optional(),
+    }),
+    acknowledgement: z.strictObject({
+      enabled: boolean,
+      emailField: nonEmpty,
+      subject: templateSource,
+      text: templateSource.optional(),
+      html: templateSource.optional(),
+      responseTimes: z.record(z.string(), z.string()),
+      defaultResponseTime: z.string(),
+    }),
+    replies: z.strictObject({
+      subject: templateSource,
+      text: templateSource.optional(),
+      html: templateSource.optional(),
+    }),
+    inbound: z.strictObject({
+      enabled: boolean,
+      token: z.string(),
+      createTickets: boolean,
+      maxAttachments: integer("Expected a whole number").refine((n) => n >= 0, "Must not be negative"),
+      maxAttachmentBytes: integer("Expected a size in bytes").refine((n) => n >= 0, "Must not be negative"),
+    }),
+    i18n: i18nSchema,
+    drafts: z.strictObject({
+      enabled: boolean,
+      ttlMs: integer("Expected milliseconds").refine((n) => n >= 60_000, "Must be at least 60000"),
+    }),
+    triage: triageSchema,
+    redaction: redactionSchema,
+    customFields: z.array(fieldSchema),
+    priorities: z.array(nonEmpty).min(1, "At least one priority is required"),
+    defaultPriority: nonEmpty,
+    categories: z.array(nonEmpty).min(1, "At least one category is required"),
+    defaultCategory: nonEmpty,
+    lifecycle: z.strictObject({
+      statuses: z.array(nonEmpty).min(1, "At least one status is required"),
+      initialStatus: nonEmpty,
+      transitions: z.record(z.string(), z.array(z.string())),
+    }),
+    sla: slaSchema,
+  })
+  .superRefine((config, ctx) => {
+    const issue = (path: PropertyKey[], message: string) =>
+      ctx.addIssue({ code: "custom", path, message });
+    const unique = (values: string[], path: PropertyKey[], what: string) => {
+      const dupes = values.filter((v, i) => values.indexOf(v) !== i);
+      if (dupes.length > 0) issue(path, `Duplicate ${what}: ${[...new Set(dupes)].join(", ")}`);
+    };
+
+    unique(config.priorities, ["priorities"], "priority");
+    unique(config.categories, ["categories"], "category");
+    unique(config.lifecycle.statuses, ["lifecycle", "statuses"], "status");
+    unique(config.customFields.map((f) => f.key), ["customFields"], "field key");
+    unique(config.auth.keys.map((k) => k.name), ["auth", "keys"], "key name");
+    // Never echo the secrets themselves
+    const secrets = config.auth.keys.map((k) => k.key);
+    if (new Set(secrets).size !== secrets.length) issue(["auth", "keys"], "Two keys share the same secret");
+    // The outbox finds a channel again by its name
+    unique(config.channels.map((c) => c.name ?? c.type), ["channels"], "channel name");
+
+    if (!config.priorities.includes(config.defaultPriority)) {
+      issue(["defaultPriority"], `"${config.defaultPriority}" is not one of the priorities`);
+    }
+    if (!config.categories.includes(config.defaultCategory)) {
+      issue(["defaultCategory"], `"${config.defaultCategory}" is not one of the categories`);
+    }
+    for (const category of Object.keys(config.emailTemplates.categories ?? {})) {
+      if (!config.categories.includes(category)) {
+        issue(["emailTemplates", "categories", category], `"${category}" is not one of the categories`);
+      }
+    }
+
+    config.customFields.forEach((field, i) => {
+      if (RESERVED_FIELD_KEYS.includes(field.key)) {
+        issue(["customFields", i, "key"], `"${field.key}" is reserved for the built-in field`);
+      }
+      if (field.type === "select" && !field.options?.length) {
+        issue(["customFields", i, "options"], "Select fields need at least one option");
+      }
+      for (const which of ["visibleWhen", "requiredWhen"] as const) {
+        const condition = field[which];
+        if (!condition) continue;
+        const at = ["customFields", i, which];
+        for (const category of condition.categories ?? []) {
+          if (!config.categories.includes(category)) {
+            issue([...at, "categories"], `"${category}" is not one of the categories`);
+          }
+        }
+        for (const priority of condition.priorities ?? []) {
+          if (!config.priorities.includes(priority)) {
+            issue([...at, "priorities"], `"${priority}" is not one of the priorities`);
+          }
+        }
+        for (const [key, values] of Object.entries(condition.fields ?? {})) {
+          const other = config.customFields.find((f) => f.key === key);
+          if (!other) {
+            issue([...at, "fields", key], `No custom field has the key "${key}"`);
+          } else if (other.type === "attachment") {
+            issue([...at, "fields", key], `"${key}" is an attachment field, which has no value to compare`);
+          } else if (key === field.key) {
+            issue([...at, "fields", key], "A field cannot depend on itself");
+          } else if (other.type === "select" && other.options) {
+            const options = other.options.map((o) => o.toLowerCase());
+            for (const value of values.filter((v) => !options.includes(v.toLowerCase()))) {
+              issue([...at, "fields", key], `"${value}" is not one of the options of "${key}"`);
+            }
+          }
+        }
+      }
+    });
+
+    unique(config.routing.rules.map((r) => r.name), ["routing", "rules"], "rule name");
+    config.routing.rules.forEach((rule, i) => {
+      const at = ["routing", "rules", i];
+      for (const category of rule.match.categories ?? []) {
+        if (!config.categories.includes(category)) {
+          issue([...at, "match", "categories"], `"${category}" is not one of the categories`);
+        }
+      }
+      for (const priority of rule.match.priorities ?? []) {
+        if (!config.priorities.includes(priority)) {
+          issue([...at, "match", "priorities"], `"${priority}" is not one of the priorities`);
+        }
+      }
+      if (rule.priority && !config.priorities.includes(rule.priority)) {
+        issue([...at, "priority"], `"${rule.priority}" is not one of the priorities`);
+      }
+      for (const key of Object.keys(rule.match.fields ?? {})) {
+        if (!config.customFields.some((f) => f.key === key)) {
+          issue([...at, "match", "fields", key], `No custom field has the key "${key}"`);
+        }
+      }
+    });
+
+    unique(config.triage.rules.map((r) => r.name), ["triage", "rules"], "rule name");
+    config.triage.rules.forEach((rule, i) => {
+      const at = ["triage", "rules", i];
+      if (!rule.keywords?.length && !rule.patterns?.length) {
+        issue(at, "Give the rule keywords or patterns to match");
+      }
+      if (!rule.category && !rule.priority && !rule.tags?.length) {
+        issue(at, "Give the rule a category, priority or tags to suggest");
+      }
+      if (rule.category && !config.categories.includes(rule.category)) {
+        issue([...at, "category"], `"${rule.category}" is not one of the categories`);
+      }
+      if (rule.priority && !config.priorities.includes(rule.priority)) {
+        issue([...at, "priority"], `"${rule.priority}" is not one of the priorities`);
+      }
+    });
+
+    unique(config.redaction.rules.map((r) => r.name), ["redaction", "rules"], "rule name");
+    config.redaction.rules.forEach((rule, i) => {
+      const at = ["redaction", "rules", i];
+      if (rule.detect === "pattern" && !rule.pattern) {
+        issue([...at, "pattern"], 'Give "pattern" rules a pattern');
+      } else if (rule.detect !== "pattern" && rule.pattern !== undefined) {
+        issue([...at, "pattern"], `"${rule.detect}" rules use a built-in detector; set detect: pattern`);
+      }
+    });
+    if (
+      config.redaction.enabled &&
+      config.redaction.rules.some((r) => r.action === "hash") &&
+      !config.redaction.hashKey
+    ) {
+      issue(["redaction", "hashKey"], 'Set a hash key for "hash" rules');
+    }
+
+    const policyKeys = config.sla.policies.map((p) => `${p.priority}${p.category ? ` / ${p.category}` : ""}`);
+    unique(policyKeys, ["sla", "policies"], "policy");
+    config.sla.policies.forEach((policy, i) => {
+      if (!config.priorities.includes(policy.priority)) {
+        issue(["sla", "policies", i, "priority"], `"${policy.priority}" is not one of the priorities`);
+      }
+      if (policy.category !== undefined && !config.categories.includes(policy.category)) {
+        issue(["sla", "policies", i, "category"], `"${policy.category}" is not one of the categories`);
+      }
+    });
+
+    // With API keys the server is not meant to be open, so neither is the mail route
+    if (config.inbound.enabled && config.auth.keys.length > 0 && !config.inbound.token) {
+      issue(["inbound", "token"], "Set a token for inbound email when API keys are configured");
+    }
+
+    const { locales, defaultLocale } = config.i18n;
+    unique(locales, ["i18n", "locales"], "locale");
+    if (!locales.includes(defaultLocale)) {
+      issue(["i18n", "defaultLocale"], `"${defaultLocale}" is not one of the locales`);
+    }
+    // Messages for "de" also serve "de-CH", but not the other way round
+    for (const tag of Object.keys(config.i18n.messages)) {
+      if (!locales.some((l) => l === tag || l.split("-")[0] === tag)) {
+        issue(["i18n", "messages", tag], `"${tag}" is not one of the locales`);
+      }
+    }
+
+    const honeypot = config.protection.spam.honeypotField;
+    if (
+      honeypot &&
+      (RESERVED_FIELD_KEYS.includes(honeypot) || config.customFields.some((f) => f.key === honeypot))
+    ) {
+      issue(["protection", "spam", "honeypotField"], `"${honeypot}" is already a form field`);
+    }
+
+    const ack = config.acknowledgement;
+    if (ack.enabled && !config.customFields.some((f) => f.key === ack.emailField)) {
+      issue(["acknowledgement", "emailField"], `No custom field has the key "${ack.emailField}"`);
+    }
+
+    const { statuses, initialStatus, transitions } = config.lifecycle;
+    if (!statuses.includes(initialStatus)) {
+      issue(["lifecycle", "initialStatus"], `"${initialStatus}" is not one of the statuses`);
+    }
+    for (const [from, targets] of Object.entries(transitions)) {
+      for (const status of [from, ...targets]) {
+        if (!statuses.includes(status)) {
+          issue(["lifecycle", "transitions", from], `"${status}" is not one of the statuses`);
+        }
+      }
+    }
+    for (const status of config.sla.resolvedStatuses) {
+      if (!statuses.includes(status)) {
+        issue(["sla", "resolvedStatuses"], `"${status}" is not one of the statuses`);
+      }
+    }
+  });
+
+/**
+ * Check a complete config, returning it with string numbers and booleans
+ * converted. Throws an Error listing every problem, one per line.
+ *
+ * @param source - File the config came from, for the error message
+ */
+export function validateConfig(config: AppConfig, source?: string): AppConfig {
+  const result = appConfigSchema.safeParse(config);
+  if (result.success) return result.data;
+
+  const lines = result.error.issues.map((issue) => {
+    const at = issue.path.join(".") || "(root)";
+    const env = ENV_SOURCES[at];
+    const hint = env && process.env[env] !== undefined ? ` (from ${env})` : "";
+    return `  - ${at}: ${issue.message}${hint}`;
+  });
+  throw new Error(
+    `Invalid configuration${source ? ` in ${source}` : ""}:\n${lines.join("\n")}`,
+  );
+}
+
+/**
+ * Replace `${NAME}` and `${NAME:-fallback}` in every string of a parsed
+ * config file. A variable that is unset and has no fallback is an error.
+ */
+export function interpolateEnv<T>(value: T, at: string[] = []): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+      const resolved = process.env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set (used at ${at.join(".") || "(root)"})`);
+      }
+      return resolved;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) => interpolateEnv(v, [...at, String(i)])) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, interpolateEnv(v, [...at, k])]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Read a JSON or YAML config file (chosen by extension) and substitute
+ * environment variables. The result still has to be merged and validated.
+ */
+export async function readConfigFile(filePath: string): Promise<ConfigFile> {
+  const raw = await fs.readFile(path.resolve(filePath), "utf-8");
+  const ext = path.extname(filePath).toLowerCase();
+
+  let parsed: unknown;
+  try {
+    if (ext === ".yaml" || ext === ".yml") {
+      parsed = YAML.parse(raw);
+    } else if (ext === ".json") {
+      parsed = JSON.parse(raw);
+    } else {
+      throw new Error("expected a .json, .yaml or .yml file");
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${filePath}: ${msg}`);
+  }
+
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Could not read ${filePath}: expected an object at the top level`);
+  }
+  return interpolateEnv(parsed as ConfigFile);
+}
+
+/**
+ * Build the validated config: defaults, then the optional config file, then
+ * any overrides given in code. Tenants in the file are ignored here; see
+ * `loadTenants`.
+ */
+export async function loadConfig(
+  filePath?: string,
+  overrides: Partial<AppConfig> = {},
+): Promise<AppConfig> {
+  const { tenants: _, ...fromFile } = filePath ? await readConfigFile(filePath) : {};
+  return validateConfig(createConfig({ ...fromFile, ...overrides }), filePath);
+}
+
+/**
+ * Carry the restart-only sections over from the running config into a
+ * reloaded one, warning about any change that will not apply yet.
+ *
+ * @param label - Names the config in the warning, e.g. a tenant
+ */
+export function keepRestartOnly(
+  next: AppConfig,
+  current: AppConfig,
+  label = "Config",
+): AppConfig {
+  for (const key of RESTART_ONLY) {
+    if (JSON.stringify(next[key]) !== JSON.stringify(current[key])) {
+      console.error(`${label}: "${key}" changed — restart the server to apply it.`);
+    }
+  }
+  return { ...next, ...Object.fromEntries(RESTART_ONLY.map((key) => [key, current[key]])) };
+}
+
+/**
+ * Call `reload` whenever the config file changes. If it throws — say, for
+ * an invalid edit — the error is logged and the running server keeps its
+ * last good config.
+ *
+ * @returns A function that stops watching
+ */
+export function watchConfig(
+  filePath: string,
+  reload: () => Promise<void>,
+): () => void {
+  const file = path.resolve(filePath);
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async () => {
+    try {
+      await reload();
+      console.error(`Config reloaded from ${filePath}.`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      console.error("Keeping the previous configuration.");
+    }
+  };
+
+  // Watch the directory rather than the file: editors often save by
+  // replacing the file, which would end a watch on the old one.
+  const watcher = watch(path.dirname(file), (_, name) => {
+    if (name !== path.basename(file)) return;
+    // Saves can arrive as several events; reload once they settle
+    clearTimeout(timer);
+    timer = setTimeout(run, 100);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -4,10 +4,27 @@
  * Teams can customize this file to adapt the app to their ecosystem:
  * - Brand identity (name, colors, logo)
  * - Email delivery settings (SMTP, recipient)
- * - Custom fields for the support form
+ * - Delivery channels (email, chat webhook, HTTP endpoint, JSONL audit file)
+ * - Email templates (subject, HTML and plain-text bodies, per category)
+ * - Custom fields for the support form, shown and required conditionally
  * - Priority levels and categories
+ * - Ticket lifecycle (statuses and allowed transitions)
+ * - Ticket storage backend
+ * - Delivery outbox (retries and backoff)
+ * - API keys, roles and CORS for the HTTP transport
+ * - Rate limits, spam filtering and duplicate detection
+ * - Routing rules (recipients, assignee, tags per kind of ticket)
+ * - SLA targets, business hours and escalation
+ * - Replies emailed to the customer from the ticket conversation
+ * - Inbound email (customer replies posted by a mail relay)
+ * - Languages of the form and emails, and translated labels
+ * - Draft mode, where the user confirms tickets the model fills in
+ * - Offline triage suggestions (keyword rules and a model of past tickets)
+ * - Redaction of card numbers, secrets and other sensitive data
  */
 
+import type { Ticket } from "./tickets.js";
+
 export interface SmtpConfig {
   host: string;
   port: number;
@@ -18,6 +35,52 @@ export interface SmtpConfig {
   };
 }
 
+/** Email the ticket to `supportEmail` (or `to`) using the SMTP settings. */
+export interface SmtpChannelConfig {
+  type: "smtp";
+  /** Name shown in delivery reports — defaults to the channel type */
+  name?: string;
+  /** Recipient override — defaults to `supportEmail` */
+  to?: string;
+}
+
+/** Post a short text message to a chat webhook (Slack, Mattermost, Google Chat, …). */
+export interface ChatChannelConfig {
+  type: "chat";
+  name?: string;
+  url: string;
+}
+
+/** POST the full ticket as JSON to an HTTP endpoint. */
+export interface HttpChannelConfig {
+  type: "http";
+  name?: string;
+  url: string;
+  /** Extra request headers, e.g. an Authorization token */
+  headers?: Record<string, string>;
+}
+
+/** Append the ticket as one JSON line to a local file, e.g. for auditing. */
+export interface FileChannelConfig {
+  type: "file";
+  name?: string;
+  path: string;
+}
+
+/** Any channel implemented in code. Resolve with a short status message; throw on failure. */
+export interface CustomChannelConfig {
+  type: "custom";
+  name: string;
+  deliver: (ticket: Ticket, config: AppConfig) => Promise<string>;
+}
+
+export type DeliveryChannelConfig =
+  | SmtpChannelConfig
+  | ChatChannelConfig
+  | HttpChannelConfig
+  | FileChannelConfig
+  | CustomChannelConfig;
+
 export interface BrandConfig {
   /** Company or team name displayed in the UI */
   name: string;
@@ -29,6 +92,46 @@ export interface BrandConfig {
   logoUrl?: string;
   /** Tagline shown below the brand name */
   tagline: string;
+  /** Tone of voice for replies drafted with the `draft_reply` prompt */
+  voice?: string;
+}
+
+export interface FieldValidation {
+  /** Regular expression the value must match (JavaScript syntax, no slashes) */
+  pattern?: string;
+  /** Message shown when `pattern` does not match */
+  patternMessage?: string;
+  /** Minimum number of characters */
+  minLength?: number;
+  /** Maximum number of characters */
+  maxLength?: number;
+  /** Smallest allowed value for "number" fields */
+  min?: number;
+  /** Largest allowed value for "number" fields */
+  max?: number;
+  /** Format check — "email" and "tel" fields get theirs automatically */
+  format?: "email" | "phone";
+}
+
+export interface AttachmentRules {
+  /** Largest accepted file, in bytes */
+  maxSizeBytes: number;
+  /** Most files accepted for this field */
+  maxFiles: number;
+  /** Accepted MIME types; "image/*" style wildcards work, an empty list accepts anything */
+  allowedTypes: string[];
+}
+
+/**
+ * A condition on the rest of the form. Every part given must hold; within
+ * one part any of the listed values will do.
+ */
+export interface FieldCondition {
+  categories?: string[];
+  /** Matched against the chosen priority, or the default one */
+  priorities?: string[];
+  /** Values of other custom fields, keyed by FieldConfig.key (case-insensitive) */
+  fields?: Record<string, string[]>;
 }
 
 export interface FieldConfig {
@@ -36,29 +139,442 @@ export interface FieldConfig {
   key: string;
   /** Display label */
   label: string;
-  /** HTML input type or "textarea" / "select" */
-  type: "text" | "email" | "tel" | "textarea" | "select";
+  /** HTML input type or "textarea" / "select" / "attachment" (file upload) */
+  type: "text" | "email" | "tel" | "number" | "textarea" | "select" | "attachment";
   /** Placeholder text */
   placeholder: string;
   /** Whether the field is required */
   required: boolean;
-  /** Options for select fields */
+  /**
+   * Only show the field when this holds, e.g. `{ categories: ["Billing"] }`.
+   * Values of hidden fields are dropped, and hidden fields are never required.
+   */
+  visibleWhen?: FieldCondition;
+  /** Also require the field when this holds (and it is visible) */
+  requiredWhen?: FieldCondition;
+  /** Options for select fields — values outside this list are rejected */
   options?: string[];
+  /** Validation rules, enforced by the tool schema and shown inline in the form */
+  validation?: FieldValidation;
+  /** Limits for "attachment" fields — unset values fall back to sensible defaults */
+  attachments?: Partial<AttachmentRules>;
+}
+
+/** A template given inline, or read from a file (relative to the working directory). */
+export type TemplateSource = string | { file: string };
+
+/** Handlebars templates for the ticket email. Unset entries fall back to the defaults. */
+export interface EmailTemplateSet {
+  subject?: TemplateSource;
+  /** Plain-text body, sent as the alternative to the HTML body */
+  text?: TemplateSource;
+  /** Branded HTML body */
+  html?: TemplateSource;
+}
+
+export interface EmailTemplateConfig extends Omit<EmailTemplateSet, "subject"> {
+  /** Overrides for tickets in a given category, keyed by category name */
+  categories?: Record<string, EmailTemplateSet>;
+}
+
+/** Automatic "we got your request" email sent to the submitter. */
+export interface AcknowledgementConfig {
+  /** Send the acknowledgement at all */
+  enabled: boolean;
+  /** Custom field holding the submitter's email address */
+  emailField: string;
+  /** Subject template — same placeholders as the ticket email, plus {{responseTime}} */
+  subject: TemplateSource;
+  /** Plain-text body — defaults to a built-in summary of the ticket */
+  text?: TemplateSource;
+  /** HTML body — defaults to a built-in branded summary of the ticket */
+  html?: TemplateSource;
+  /** Expected response time per priority, e.g. { Urgent: "within 1 hour" } */
+  responseTimes: Record<string, string>;
+  /** Used for priorities missing from `responseTimes` */
+  defaultResponseTime: string;
+}
+
+/** The email sent to the customer when the team replies to a ticket. */
+export interface RepliesConfig {
+  /**
+   * Subject template — same placeholders as the ticket email, plus
+   * {{comment.author}} and {{comment.body}}. Keep {{ticketId}} in it so
+   * replies can be matched to the ticket.
+   */
+  subject: TemplateSource;
+  /** Plain-text body — defaults to a built-in message quoting the reply */
+  text?: TemplateSource;
+  /** HTML body — defaults to a built-in branded message quoting the reply */
+  html?: TemplateSource;
+}
+
+/** Mail posted to `/inbound/email` by a mail relay or MTA pipe. */
+export interface InboundEmailConfig {
+  /** Accept inbound mail at all */
+  enabled: boolean;
+  /**
+   * Secret the relay sends as `Authorization: Bearer <token>` or
+   * `X-API-Key: <token>`; empty accepts mail from anyone who can reach
+   * the route
+   */
+  token: string;
+  /** Open a new ticket for mail that matches no ticket */
+  createTickets: boolean;
+  /** Attachments kept per message; extra ones are dropped */
+  maxAttachments: number;
+  /** Attachments larger than this are dropped */
+  maxAttachmentBytes: number;
+}
+
+/**
+ * Draft mode: a `customer_support` call from the model only prefills the
+ * form, and the ticket is sent once the user presses Submit in it.
+ */
+export interface DraftConfig {
+  /** Hold model-initiated submissions as drafts for the user to confirm */
+  enabled: boolean;
+  /** How long a draft can be confirmed, in milliseconds */
+  ttlMs: number;
+}
+
+/**
+ * A triage rule: when any of its keywords or patterns occurs in the issue,
+ * it votes for its category and priority and suggests its tags.
+ */
+export interface TriageRule {
+  /** Reported with the suggestion */
+  name: string;
+  /** Words or phrases, matched as whole words (case-insensitive) */
+  keywords?: string[];
+  /** Regular expressions (case-insensitive) */
+  patterns?: string[];
+  category?: string;
+  priority?: string;
+  tags?: string[];
+  /** How much the rule's vote counts when matching rules disagree (default 1) */
+  weight?: number;
+}
+
+/**
+ * Category, priority and tag suggestions shown while the issue is typed,
+ * worked out locally from rules and past tickets — see `triage.ts`.
+ */
+export interface TriageConfig {
+  enabled: boolean;
+  rules: TriageRule[];
+  /** Learn from past tickets what the rules leave open */
+  learn: boolean;
+  /** Past tickets with a deliberately set value needed before the model suggests one */
+  minExamples: number;
+  /** Suggestions less certain than this share (0–1) are left out */
+  minConfidence: number;
+}
+
+/** What a redaction rule does with what it finds. */
+export type RedactionAction = "mask" | "hash" | "reject";
+
+/**
+ * A redaction rule: a built-in detector or a custom pattern, and what to do
+ * with matches. See `sensitive.ts` for what the detectors look for.
+ */
+export interface RedactionRule {
+  /** Named in the form's warnings and in rejections, and recorded on the ticket */
+  name: string;
+  detect: "creditCard" | "secret" | "nationalId" | "pattern";
+  /**
+   * Regular expression for "pattern" rules (case-insensitive). With a
+   * capture group, only the group is redacted.
+   */
+  pattern?: string;
+  /**
+   * "mask" blanks the match out (card numbers keep their last four digits),
+   * "hash" replaces it with a keyed hash, so equal values can still be
+   * matched up, and "reject" refuses the text until the user removes it
+   */
+  action: RedactionAction;
+}
+
+/**
+ * Sensitive data taken out of tickets, comments and inbound email before
+ * they are stored, delivered or logged.
+ */
+export interface RedactionConfig {
+  enabled: boolean;
+  /** Applied in order; where matches overlap, the earlier rule wins */
+  rules: RedactionRule[];
+  /** Secret key for "hash" rules, so short values cannot be found by hashing guesses */
+  hashKey: string;
+}
+
+/**
+ * Languages the form and emails are offered in. Messages and translated
+ * labels live in catalogs keyed by locale — see `i18n.ts` for the keys.
+ */
+export interface I18nConfig {
+  /**
+   * Used when the host or submitter asks for a locale not listed, and for
+   * emails to the team
+   */
+  defaultLocale: string;
+  /** Locales offered, e.g. ["en", "de-CH"] — en, de and fr are built in */
+  locales: string[];
+  /** Time zone of dates in emails to the team, and to submitters who sent none */
+  timeZone: string;
+  /**
+   * Extra or replacement messages per locale, e.g.
+   * `{ de: { "priority.High": "Hoch", "field.orderId.label": "Bestellnummer" } }`
+   */
+  messages: Record<string, Record<string, string>>;
+}
+
+export interface StorageConfig {
+  /** "file" persists tickets to a JSON file; "memory" keeps them in-process */
+  type: "file" | "memory";
+  /** Path of the JSON file used by the "file" backend */
+  path: string;
+  /** Prefix for ticket IDs, e.g. "CS" produces CS-000123 */
+  idPrefix: string;
+}
+
+export interface OutboxConfig {
+  /** JSON file holding queued deliveries (with the "file" storage backend) */
+  path: string;
+  /** Attempts per delivery before it is marked dead */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles after each further failure */
+  retryDelayMs: number;
+  /** Upper bound for the delay between retries */
+  maxRetryDelayMs: number;
+  /** How often the background worker looks for due retries */
+  pollIntervalMs: number;
+}
+
+/**
+ * Conditions a routing rule matches on. Every condition given must hold;
+ * within one condition any of the listed values will do. A rule without
+ * conditions matches every ticket.
+ */
+export interface RoutingMatch {
+  categories?: string[];
+  priorities?: string[];
+  /** Custom field values, keyed by FieldConfig.key (case-insensitive) */
+  fields?: Record<string, string[]>;
+  /** Words or phrases to look for in the issue (case-insensitive) */
+  keywords?: string[];
+}
+
+export interface RoutingRule {
+  /** Recorded on the ticket and shown in the tool result */
+  name: string;
+  match: RoutingMatch;
+  /** Email the ticket to these addresses instead of `supportEmail` */
+  to?: string[];
+  /** Copy these addresses on the ticket email */
+  cc?: string[];
+  /** Assign the ticket to this team member */
+  assignee?: string;
+  /** Priority used when the submitter does not pick one */
+  priority?: string;
+  /** Labels added to the ticket */
+  tags?: string[];
+}
+
+export interface RoutingConfig {
+  /**
+   * "first" applies only the first matching rule; "all" applies every
+   * matching rule, combining recipients and tags (the first assignee and
+   * priority set win)
+   */
+  mode: "first" | "all";
+  rules: RoutingRule[];
+}
+
+/** At most `max` submissions per `windowMs`. A `max` of 0 turns the limit off. */
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+export interface SpamConfig {
+  /** Submissions scoring this much or more are rejected; 0 turns the filter off */
+  threshold: number;
+  /**
+   * Hidden form field that people never see and bots tend to fill in.
+   * Any value in it marks the submission as spam; "" turns it off. The
+   * form sends it outside the tool arguments, so models never see it.
+   */
+  honeypotField: string;
+  /** Words or phrases that count against a submission (case-insensitive) */
+  blockedWords: string[];
+}
+
+export interface DuplicateConfig {
+  /** How far back to look for an earlier ticket from the same submitter; 0 turns detection off */
+  windowMs: number;
+  /** How alike two issue texts must be (0–1, share of words in common) */
+  similarity: number;
+}
+
+/** Protection against floods of tickets from loops, bots and double submissions. */
+export interface ProtectionConfig {
+  /** Per client: the API key's name, or the IP address without auth (not over stdio) */
+  perClient: RateLimit;
+  /** Per submitter email address (the acknowledgement email field) */
+  perEmail: RateLimit;
+  spam: SpamConfig;
+  duplicates: DuplicateConfig;
+}
+
+/**
+ * What a key may do. Submitters create tickets and read the ones they
+ * submitted; agents can also list, update and close any ticket and manage
+ * the delivery outbox.
+ */
+export type Role = "submitter" | "agent";
+
+export interface ApiKeyConfig {
+  /** Who holds the key — recorded on tickets and in their history */
+  name: string;
+  /** The secret, sent as `Authorization: Bearer <key>` or `X-API-Key: <key>` */
+  key: string;
+  roles: Role[];
+}
+
+export interface AuthConfig {
+  /** Accepted API keys; with none configured the HTTP transport is open to anyone */
+  keys: ApiKeyConfig[];
+}
+
+export interface HttpConfig {
+  /** Origins allowed to call the server from a browser; "*" allows any */
+  corsOrigins: string[];
+}
+
+/**
+ * Response and resolution targets for tickets of one priority, optionally
+ * only in one category. Times are in business hours.
+ */
+export interface SlaPolicy {
+  priority: string;
+  /** Only tickets in this category; a matching policy with a category wins */
+  category?: string;
+  /** Until the first public team reply, or the ticket first leaves its initial status */
+  firstResponseHours?: number;
+  /** Until the ticket reaches one of `SlaConfig.resolvedStatuses` */
+  resolutionHours?: number;
+}
+
+/** When the SLA clock runs. */
+export interface BusinessHoursConfig {
+  /** IANA time zone the hours and holidays are in, e.g. "Europe/Berlin" */
+  timeZone: string;
+  /** Working days, 0 = Sunday … 6 = Saturday */
+  days: number[];
+  /** Start of the working day, "HH:MM" */
+  start: string;
+  /** End of the working day, "HH:MM" — "24:00" for midnight */
+  end: string;
+  /** Days off, as "YYYY-MM-DD" */
+  holidays: string[];
+}
+
+export interface SlaConfig {
+  /** SLA targets; with none configured tickets have no SLA */
+  policies: SlaPolicy[];
+  businessHours: BusinessHoursConfig;
+  /** Statuses that count as resolved */
+  resolvedStatuses: string[];
+  /** Share of a target after which a ticket is "at risk", e.g. 0.8 */
+  warnAt: number;
+  /** How often the scheduler looks for tickets to escalate */
+  checkIntervalMs: number;
+  /**
+   * Who is warned about tickets at risk or in breach. Empty sends them to
+   * the ticket's routed recipients, or `supportEmail`.
+   */
+  escalateTo: string[];
+  /** Also told about breaches, e.g. a team lead */
+  breachEscalateTo: string[];
+}
+
+export interface LifecycleConfig {
+  /** Every status a ticket can be in */
+  statuses: string[];
+  /** Status assigned to newly submitted tickets */
+  initialStatus: string;
+  /** Allowed moves: each status maps to the statuses it may change to */
+  transitions: Record<string, string[]>;
 }
 
 export interface AppConfig {
   brand: BrandConfig;
   smtp: SmtpConfig;
+  storage: StorageConfig;
+  /** Retry behaviour for deliveries that fail */
+  outbox: OutboxConfig;
+  /** API keys and their roles */
+  auth: AuthConfig;
+  /** HTTP transport settings */
+  http: HttpConfig;
+  /** Rate limits, spam filter and duplicate detection for new tickets */
+  protection: ProtectionConfig;
   /** Email address that receives support tickets */
   supportEmail: string;
-  /** Subject line template — use {{name}} and {{issue}} as placeholders */
+  /** Where new tickets are delivered — every channel is tried */
+  channels: DeliveryChannelConfig[];
+  /** Rules that pick recipients, assignee, priority and tags per ticket */
+  routing: RoutingConfig;
+  /**
+   * Subject line template (Handlebars) — any field can be referenced, e.g.
+   * {{ticketId}}, {{name}}, {{issue}}, {{priority}} or a custom field key,
+   * and catalog messages with {{t "key"}}
+   */
   emailSubjectTemplate: string;
+  /** Email body templates and per-category overrides */
+  emailTemplates: EmailTemplateConfig;
+  /** Confirmation email sent back to the customer */
+  acknowledgement: AcknowledgementConfig;
+  /** Email sent to the customer for public team replies */
+  replies: RepliesConfig;
+  /** Turning emailed replies into ticket comments */
+  inbound: InboundEmailConfig;
+  /** Languages and translations of the form and emails */
+  i18n: I18nConfig;
+  /** Whether tickets started by the model wait for the user to confirm them */
+  drafts: DraftConfig;
+  /** Suggested category, priority and tags for new tickets */
+  triage: TriageConfig;
+  /** Sensitive data masked, hashed or refused in ticket text */
+  redaction: RedactionConfig;
   /** Extra fields beyond the default name + issue */
   customFields: FieldConfig[];
   /** Available priority levels */
   priorities: string[];
+  /** Priority preselected in the form and used when none is given */
+  defaultPriority: string;
   /** Available issue categories */
   categories: string[];
+  /** Category preselected in the form and used when none is given */
+  defaultCategory: string;
+  /** Ticket statuses and the transitions allowed between them */
+  lifecycle: LifecycleConfig;
+  /** Response and resolution targets, and who hears about breaches */
+  sla: SlaConfig;
+}
+
+/**
+ * One tenant in a multi-tenant config file: overrides applied on top of the
+ * file's shared settings, plus the host names that select it.
+ */
+export interface TenantConfig extends Partial<AppConfig> {
+  /** Host headers routed to this tenant, e.g. ["support.acme.com"] */
+  hosts?: string[];
+}
+
+/** Contents of a config file: shared settings and optional tenants, keyed by ID. */
+export interface ConfigFile extends Partial<AppConfig> {
+  tenants?: Record<string, TenantConfig>;
 }
 
 /**
@@ -66,6 +582,11 @@ export interface AppConfig {
  *
  * SMTP credentials should come from environment variables in production:
  *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SUPPORT_EMAIL
+ *
+ * The ticket store can be switched with TICKET_STORE (file | memory) and
+ * TICKET_STORE_PATH, and the delivery outbox file with OUTBOX_PATH. Set
+ * ACKNOWLEDGEMENT_EMAIL=true to confirm receipt to customers by email, and
+ * CORS_ORIGINS to a comma-separated list to restrict browser access.
  */
 export const defaultConfig: AppConfig = {
   brand: {
@@ -85,9 +606,141 @@ export const defaultConfig: AppConfig = {
     },
   },
 
+  storage: {
+    type: process.env.TICKET_STORE === "memory" ? "memory" : "file",
+    path: process.env.TICKET_STORE_PATH ?? "data/tickets.json",
+    idPrefix: "CS",
+  },
+
+  outbox: {
+    path: process.env.OUTBOX_PATH ?? "data/outbox.json",
+    maxAttempts: 8,
+    retryDelayMs: 30_000,
+    maxRetryDelayMs: 60 * 60_000,
+    pollIntervalMs: 15_000,
+  },
+
+  auth: {
+    keys: [],
+  },
+
+  http: {
+    corsOrigins: (process.env.CORS_ORIGINS ?? "*").split(",").map((o) => o.trim()),
+  },
+
+  protection: {
+    perClient: { max: 20, windowMs: 60 * 60_000 },
+    perEmail: { max: 5, windowMs: 60 * 60_000 },
+    spam: {
+      threshold: 5,
+      honeypotField: "website",
+      blockedWords: ["viagra", "casino", "lottery winner", "crypto giveaway"],
+    },
+    duplicates: { windowMs: 30 * 60_000, similarity: 0.8 },
+  },
+
   supportEmail: process.env.SUPPORT_EMAIL ?? "support@example.com",
 
-  emailSubjectTemplate: "Support Request from {{name}}: {{issue}}",
+  channels: [{ type: "smtp" }],
+
+  routing: {
+    mode: "first",
+    rules: [],
+  },
+
+  emailSubjectTemplate: '[{{ticketId}}] {{t "email.subject" name=name issue=issue}}',
+
+  emailTemplates: {},
+
+  acknowledgement: {
+    enabled: process.env.ACKNOWLEDGEMENT_EMAIL === "true",
+    emailField: "email",
+    subject: '[{{ticketId}}] {{t "ack.subject"}}',
+    responseTimes: {
+      Low: "within 3 business days",
+      Medium: "within 1 business day",
+      High: "within 4 business hours",
+      Urgent: "within 1 hour",
+    },
+    defaultResponseTime: "as soon as possible",
+  },
+
+  replies: {
+    subject: 'Re: [{{ticketId}}] {{t "ack.subject"}}',
+  },
+
+  inbound: {
+    enabled: process.env.INBOUND_EMAIL === "true",
+    token: process.env.INBOUND_EMAIL_TOKEN ?? "",
+    createTickets: true,
+    maxAttachments: 5,
+    maxAttachmentBytes: 10 * 1024 * 1024,
+  },
+
+  drafts: {
+    enabled: process.env.DRAFT_MODE === "true",
+    ttlMs: 60 * 60 * 1000,
+  },
+
+  triage: {
+    enabled: process.env.TRIAGE_SUGGESTIONS !== "false",
+    rules: [
+      {
+        name: "Billing",
+        keywords: ["invoice", "refund", "billing", "receipt", "charged", "payment", "subscription"],
+        category: "Billing",
+      },
+      {
+        name: "Charged twice",
+        patterns: ["charged (twice|two times|double)", "double[- ]charged?"],
+        category: "Billing",
+        priority: "High",
+      },
+      {
+        name: "Something broken",
+        keywords: ["error", "bug", "crash", "crashes", "crashed", "broken", "exception"],
+        patterns: ["(does ?n[o']t|not) work(ing)?"],
+        category: "Bug Report",
+      },
+      {
+        name: "Feature wish",
+        keywords: ["feature request", "would be nice", "could you add", "please add"],
+        category: "Feature Request",
+      },
+      {
+        name: "Outage",
+        keywords: ["urgent", "asap", "emergency", "outage"],
+        patterns: ["\\b(site|service|app|everything|production) (is )?down\\b"],
+        priority: "Urgent",
+      },
+      {
+        name: "Locked out",
+        keywords: ["locked out"],
+        patterns: ["can(no|')?t (log ?in|sign ?in|access)"],
+        priority: "High",
+      },
+    ],
+    learn: true,
+    minExamples: 20,
+    minConfidence: 0.6,
+  },
+
+  redaction: {
+    enabled: true,
+    rules: [
+      { name: "Card number", detect: "creditCard", action: "mask" },
+      { name: "Password or access key", detect: "secret", action: "mask" },
+      { name: "National ID number", detect: "nationalId", action: "mask" },
+    ],
+    hashKey: process.env.REDACTION_HASH_KEY ?? "",
+  },
+
+  i18n: {
+    defaultLocale: "en",
+    locales: ["en", "de", "fr"],
+    timeZone: "UTC",
+    messages: {},
+  },
 
   customFields: [
     {
@@ -97,9 +750,22 @@ export const defaultConfig: AppConfig = {
       placeholder: "you@example.com",
       required: false,
     },
+    {
+      key: "attachments",
+      label: "Attachments",
+      type: "attachment",
+      placeholder: "Screenshots or log files",
+      required: false,
+      attachments: {
+        maxSizeBytes: 5 * 1024 * 1024,
+        maxFiles: 3,
+        allowedTypes: ["image/*", "text/plain", "application/pdf", "application/zip"],
+      },
+    },
   ],
 
   priorities: ["Low", "Medium", "High", "Urgent"],
+  defaultPriority: "Medium",
 
   categories: [
     "General Inquiry",
@@ -108,6 +774,35 @@ export const defaultConfig: AppConfig = {
     "Feature Request",
     "Bug Report",
   ],
+  defaultCategory: "General Inquiry",
+
+  lifecycle: {
+    statuses: ["open", "in_progress", "waiting_on_customer", "resolved", "closed"],
+    initialStatus: "open",
+    transitions: {
+      open: ["in_progress", "waiting_on_customer", "resolved", "closed"],
+      in_progress: ["waiting_on_customer", "resolved", "open"],
+      waiting_on_customer: ["in_progress", "resolved", "closed"],
+      resolved: ["closed", "open"],
+      closed: ["open"],
+    },
+  },
+
+  sla: {
+    policies: [],
+    businessHours: {
+      timeZone: "UTC",
+      days: [1, 2, 3, 4, 5],
+      start: "09:00",
+      end: "17:00",
+      holidays: [],
+    },
+    resolvedStatuses: ["resolved", "closed"],
+    warnAt: 0.8,
+    checkIntervalMs: 60_000,
+    escalateTo: [],
+    breachEscalateTo: [],
+  },
 };
 
 /**
@@ -115,6 +810,9 @@ export const defaultConfig: AppConfig = {
  * Useful for teams that only need to change a few values.
  */
 export function createConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  const priorities = overrides.priorities ?? defaultConfig.priorities;
+  const categories = overrides.categories ?? defaultConfig.categories;
+
   return {
     ...defaultConfig,
     ...overrides,
@@ -124,8 +822,99 @@ export function createConfig(overrides: Partial<AppConfig> = {}): AppConfig {
       ...overrides.smtp,
       auth: { ...defaultConfig.smtp.auth, ...overrides.smtp?.auth },
     },
+    storage: { ...defaultConfig.storage, ...overrides.storage },
+    outbox: { ...defaultConfig.outbox, ...overrides.outbox },
+    auth: { ...defaultConfig.auth, ...overrides.auth },
+    http: { ...defaultConfig.http, ...overrides.http },
+    protection: {
+      perClient: { ...defaultConfig.protection.perClient, ...overrides.protection?.perClient },
+      perEmail: { ...defaultConfig.protection.perEmail, ...overrides.protection?.perEmail },
+      spam: { ...defaultConfig.protection.spam, ...overrides.protection?.spam },
+      duplicates: { ...defaultConfig.protection.duplicates, ...overrides.protection?.duplicates },
+    },
+    emailTemplates: { ...defaultConfig.emailTemplates, ...overrides.emailTemplates },
+    acknowledgement: { ...defaultConfig.acknowledgement, ...overrides.acknowledgement },
+    replies: { ...defaultConfig.replies, ...overrides.replies },
+    inbound: { ...defaultConfig.inbound, ...overrides.inbound },
+    i18n: { ...defaultConfig.i18n, ...overrides.i18n },
+    drafts: { ...defaultConfig.drafts, ...overrides.drafts },
+    triage: {
+      ...defaultConfig.triage,
+      ...overrides.triage,
+      // The built-in rules only apply while their category and priority exist
+      rules:
+        overrides.triage?.rules ??
+        defaultConfig.triage.rules.filter(
+          (rule) =>
+            (!rule.category || categories.includes(rule.category)) &&
+            (!rule.priority || priorities.includes(rule.priority)),
+        ),
+    },
+    redaction: { ...defaultConfig.redaction, ...overrides.redaction },
+    channels: overrides.channels ?? defaultConfig.channels,
+    routing: { ...defaultConfig.routing, ...overrides.routing },
     customFields: overrides.customFields ?? defaultConfig.customFields,
-    priorities: overrides.priorities ?? defaultConfig.priorities,
-    categories: overrides.categories ?? defaultConfig.categories,
+    priorities,
+    categories,
+    // Fall back to the first entry when a custom list drops the default
+    defaultPriority:
+      overrides.defaultPriority ??
+      (priorities.includes(defaultConfig.defaultPriority)
+        ? defaultConfig.defaultPriority
+        : priorities[0]),
+    defaultCategory:
+      overrides.defaultCategory ??
+      (categories.includes(defaultConfig.defaultCategory)
+        ? defaultConfig.defaultCategory
+        : categories[0]),
+    lifecycle: { ...defaultConfig.lifecycle, ...overrides.lifecycle },
+    sla: {
+      ...defaultConfig.sla,
+      ...overrides.sla,
+      businessHours: { ...defaultConfig.sla.businessHours, ...overrides.sla?.businessHours },
+    },
+  };
+}
+
+/**
+ * The part of the config the React UI needs. Built from an explicit list of
+ * keys so SMTP credentials and other server-only settings never leave the
+ * server.
+ */
+export type PublicConfig = Pick<
+  AppConfig,
+  | "brand"
+  | "customFields"
+  | "priorities"
+  | "defaultPriority"
+  | "categories"
+  | "defaultCategory"
+> & {
+  /** Name of the hidden spam-trap field the form renders, or "" */
+  honeypotField: string;
+  /** Whether the form asks `suggest_triage` for a category and priority */
+  triageSuggestions: boolean;
+  /** Rules the form warns with while the user types; empty when redaction is off */
+  redactionRules: RedactionRule[];
+  /** Locales and configured messages; the built-in catalogs ship with the UI */
+  i18n: Pick<I18nConfig, "defaultLocale" | "locales" | "messages">;
+};
+
+export function toPublicConfig(config: AppConfig): PublicConfig {
+  return {
+    brand: config.brand,
+    customFields: config.customFields,
+    priorities: config.priorities,
+    defaultPriority: config.defaultPriority,
+    categories: config.categories,
+    defaultCategory: config.defaultCategory,
+    honeypotField: config.protection.spam.honeypotField,
+    triageSuggestions: config.triage.enabled,
+    redactionRules: config.redaction.enabled ? config.redaction.rules : [],
+    i18n: {
+      defaultLocale: config.i18n.defaultLocale,
+      locales: config.i18n.locales,
+      messages: config.i18n.messages,
+    },
   };
 }
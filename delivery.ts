@@ -0,0 +1,349 @@
+/**
+ * @file Delivery channels for new tickets.
+ *
+ * Each entry in `AppConfig.channels` becomes a {@link DeliveryChannel}.
+ * Channels are driven by the outbox (see outbox.ts), which retries each
+ * one independently, so a broken webhook never blocks the email.
+ */
+import nodemailer from "nodemailer";
+import type Mail from "nodemailer/lib/mailer/index.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AppConfig, DeliveryChannelConfig } from "./config.js";
+import { threadMessageId, threadReferences, withoutInternalNotes } from "./comments.js";
+import {
+  renderAcknowledgement,
+  renderCommentNotice,
+  renderEmail,
+  renderEscalation,
+  renderReply,
+} from "./templates.js";
+import {
+  type AttachmentFile,
+  loadAttachments,
+  type SlaEscalation,
+  type Ticket,
+  type TicketComment,
+  type TicketStore,
+  toTicketView,
+} from "./tickets.js";
+import { isValidEmail } from "./validation.js";
+
+export interface DeliveryChannel {
+  /** Name used in delivery reports */
+  readonly name: string;
+  /** Deliver the ticket. Resolves with what happened; throws on failure. */
+  deliver(ticket: Ticket): Promise<DeliveryResult>;
+}
+
+/** What a delivery did. */
+export interface DeliveryResult {
+  /** Status message for reports */
+  message: string;
+  /** Nothing was sent: SMTP is not configured, so a preview was logged */
+  logged?: boolean;
+}
+
+/** Give up on an HTTP channel that has not answered after this long. */
+const HTTP_TIMEOUT_MS = 10_000;
+
+/**
+ * Send an email via SMTP, or log a preview when SMTP credentials aren't
+ * configured. Resolves to whether the message actually went out.
+ */
+async function sendMail(
+  config: AppConfig,
+  mail: Omit<Mail.Options, "from">,
+): Promise<boolean> {
+  // If SMTP credentials aren't configured, log instead of sending
+  if (!config.smtp.auth.user || !config.smtp.auth.pass) {
+    console.error("=== EMAIL PREVIEW (SMTP not configured) ===");
+    console.error(`To: ${mail.to}`);
+    if (mail.cc) console.error(`Cc: ${mail.cc}`);
+    console.error(`Subject: ${mail.subject}`);
+    console.error(mail.text);
+    console.error("============================================");
+    return false;
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.smtp.host,
+    port: config.smtp.port,
+    secure: config.smtp.secure,
+    auth: config.smtp.auth,
+  });
+
+  await transporter.sendMail({ from: config.smtp.auth.user, ...mail });
+  return true;
+}
+
+/** The result of an email: sent, or only previewed in the log. */
+function mailResult(sent: boolean, message: string, what: string): DeliveryResult {
+  return sent
+    ? { message }
+    : { message: `${what} preview logged — configure SMTP credentials to enable delivery.`, logged: true };
+}
+
+function mailAttachments(files: AttachmentFile[]): Mail.Attachment[] {
+  return files.map((file) => ({
+    filename: file.filename,
+    content: file.data,
+    encoding: "base64",
+    contentType: file.mimeType,
+  }));
+}
+
+/**
+ * The team's addresses for a ticket: its routed recipients, or `supportEmail`.
+ */
+function teamAddresses(ticket: Ticket, config: AppConfig): string[] {
+  const routed = ticket.routing?.to ?? [];
+  return routed.length > 0 ? routed : [config.supportEmail];
+}
+
+/**
+ * Send the support email via SMTP, with the files that came with the
+ * submission.
+ */
+async function sendSupportEmail(
+  ticket: Ticket,
+  config: AppConfig,
+  files: AttachmentFile[],
+  to: string[],
+  cc: string[] = [],
+): Promise<DeliveryResult> {
+  const { subject, text, html } = await renderEmail(ticket, config);
+
+  const sent = await sendMail(config, {
+    to,
+    cc: cc.length > 0 ? cc : undefined,
+    messageId: threadMessageId(ticket, config, "ticket"),
+    subject,
+    text,
+    html,
+    replyTo: ticket.customFields[config.acknowledgement.emailField] || undefined,
+    attachments: mailAttachments(files),
+  });
+
+  return mailResult(sent, `Email sent to ${to.join(", ")}${cc.length > 0 ? ` (cc ${cc.join(", ")})` : ""}.`, "Email");
+}
+
+/**
+ * Whether an address is one of ours: the support address, the SMTP sender,
+ * a team channel's recipient or, given a ticket, one it was routed to.
+ */
+export function isSupportAddress(config: AppConfig, address: string, ticket?: Ticket): boolean {
+  const ours = [
+    config.supportEmail,
+    config.smtp.auth.user,
+    ...config.channels.flatMap((c) => (c.type === "smtp" && c.to ? [c.to] : [])),
+    ...(ticket?.routing?.to ?? []),
+    ...(ticket?.routing?.cc ?? []),
+  ];
+  return ours.some((a) => a.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Work out where email for the customer should go. Returns the recipient,
+ * or the reason it must not be sent — malformed addresses and our own
+ * support addresses (which would loop) are skipped.
+ */
+export function customerRecipient(
+  ticket: Ticket,
+  config: AppConfig,
+): { to: string } | { skip: string; to?: string } {
+  const to = ticket.customFields[config.acknowledgement.emailField]?.trim();
+  if (!to) return { skip: "No submitter email address given." };
+  if (!isValidEmail(to)) return { skip: `"${to}" does not look like a valid email address.`, to };
+
+  if (isSupportAddress(config, to, ticket)) {
+    return { skip: "Submitter address matches the support address.", to };
+  }
+  return { to };
+}
+
+/**
+ * Where the acknowledgement for a ticket should go, as for
+ * {@link customerRecipient}. Resolves to undefined when acknowledgements
+ * are switched off.
+ */
+export function acknowledgementRecipient(
+  ticket: Ticket,
+  config: AppConfig,
+): ReturnType<typeof customerRecipient> | undefined {
+  return config.acknowledgement.enabled ? customerRecipient(ticket, config) : undefined;
+}
+
+/**
+ * Email the submitter a confirmation with their ticket ID, a summary of
+ * what they sent and the expected response time. Resolves with a status
+ * message; throws when sending fails.
+ */
+export async function sendAcknowledgement(
+  ticket: Ticket,
+  config: AppConfig,
+  to: string,
+): Promise<DeliveryResult> {
+  const { subject, text, html } = await renderAcknowledgement(ticket, config);
+  // Starts the customer's thread, which replies continue
+  const messageId = threadMessageId(ticket, config);
+  const sent = await sendMail(config, { to, messageId, subject, text, html });
+  return mailResult(sent, `Confirmation emailed to ${to}.`, "Acknowledgement");
+}
+
+/**
+ * Email a public comment: a team reply goes to the customer at `to`, a
+ * customer comment to the team the ticket was routed to (or
+ * `supportEmail`). Threading headers are set so the message joins the
+ * ticket's conversation, and `files` — the comment's attachments — are
+ * attached. Resolves with a status message; throws when sending fails.
+ */
+export async function sendComment(
+  ticket: Ticket,
+  config: AppConfig,
+  comment: TicketComment,
+  files: AttachmentFile[],
+  to?: string,
+): Promise<DeliveryResult> {
+  if (comment.from === "team" && !to) throw new Error("The customer has no email address.");
+  const recipients = comment.from === "team" && to ? [to] : teamAddresses(ticket, config);
+  const { subject, text, html } =
+    comment.from === "team"
+      ? await renderReply(ticket, config, comment)
+      : await renderCommentNotice(ticket, config, comment);
+
+  const sent = await sendMail(config, {
+    to: recipients,
+    subject,
+    text,
+    html,
+    messageId: comment.messageId,
+    inReplyTo: comment.inReplyTo,
+    references: threadReferences(ticket, config, comment),
+    replyTo:
+      comment.from === "customer"
+        ? ticket.customFields[config.acknowledgement.emailField] || undefined
+        : undefined,
+    attachments: mailAttachments(files),
+  });
+  return mailResult(sent, `Comment emailed to ${recipients.join(", ")}.`, "Comment");
+}
+
+/**
+ * Who hears about an SLA escalation: `sla.escalateTo`, else whoever the
+ * ticket was routed to, else `supportEmail` — plus `sla.breachEscalateTo`
+ * for breaches.
+ */
+export function escalationRecipients(
+  ticket: Ticket,
+  config: AppConfig,
+  escalation: SlaEscalation,
+): string[] {
+  const { escalateTo, breachEscalateTo } = config.sla;
+  const to = escalateTo.length > 0 ? escalateTo : teamAddresses(ticket, config);
+  if (escalation.level !== "breach") return to;
+  return [...to, ...breachEscalateTo.filter((a) => !to.includes(a))];
+}
+
+/**
+ * Email the team that a ticket is at risk of missing, or has missed, an
+ * SLA target. Resolves with a status message; throws when sending fails.
+ */
+export async function sendEscalation(
+  ticket: Ticket,
+  config: AppConfig,
+  escalation: SlaEscalation,
+): Promise<DeliveryResult> {
+  const to = escalationRecipients(ticket, config, escalation);
+  const { subject, text, html } = await renderEscalation(ticket, config, escalation);
+  const sent = await sendMail(config, { to, subject, text, html });
+  return mailResult(sent, `Escalation sent to ${to.join(", ")}.`, "Escalation");
+}
+
+/**
+ * POST a JSON payload, treating any non-2xx response as a failure.
+ */
+async function postJson(
+  url: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Turn one channel entry from the config into a deliverable channel.
+ * Email channels read attachment contents from `store`.
+ */
+export function createChannel(
+  channel: DeliveryChannelConfig,
+  config: AppConfig,
+  store: TicketStore,
+): DeliveryChannel {
+  const name = channel.name ?? channel.type;
+
+  switch (channel.type) {
+    // Routing rules replace `supportEmail`; a channel with its own `to`
+    // always goes to that address
+    case "smtp":
+      return {
+        name,
+        deliver: async (ticket) => {
+          const files = await loadAttachments(
+            store,
+            ticket.attachments.filter((file) => file.commentId === undefined),
+          );
+          if (channel.to) return sendSupportEmail(ticket, config, files, [channel.to]);
+          return sendSupportEmail(ticket, config, files, teamAddresses(ticket, config), ticket.routing?.cc);
+        },
+      };
+
+    case "chat":
+      return {
+        name,
+        deliver: async (ticket) => {
+          const text =
+            `*${ticket.id}* — ${ticket.priority} ${ticket.category} ticket from ${ticket.name}\n` +
+            ticket.issue;
+          await postJson(channel.url, { text });
+          return { message: "Posted to chat webhook." };
+        },
+      };
+
+    case "http":
+      return {
+        name,
+        deliver: async (ticket) => {
+          // Outside systems get file names and sizes, not file contents or agents' notes
+          await postJson(channel.url, { ticket: withoutInternalNotes(toTicketView(ticket)) }, channel.headers);
+          return { message: `Posted to ${channel.url}.` };
+        },
+      };
+
+    case "file":
+      return {
+        name,
+        deliver: async (ticket) => {
+          const file = path.resolve(channel.path);
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          const line = JSON.stringify({
+            deliveredAt: new Date().toISOString(),
+            ticket: toTicketView(ticket),
+          });
+          await fs.appendFile(file, `${line}\n`, "utf-8");
+          return { message: `Appended to ${channel.path}.` };
+        },
+      };
+
+    case "custom":
+      return { name, deliver: async (ticket) => ({ message: await channel.deliver(ticket, config) }) };
+  }
+}
@@ -0,0 +1,74 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { createConfig } from "./config.js";
+import { DraftStore } from "./drafts.js";
+import { createServer } from "./server.js";
+import { MemoryTicketStore } from "./tickets.js";
+
+describe("DraftStore", () => {
+  it("lets only the caller that started a draft claim it, once", () => {
+    const drafts = new DraftStore(60_000);
+    const draft = drafts.create("web-form");
+    expect(drafts.claim(draft.token, "other-form")).toBeUndefined();
+    expect(drafts.claim(draft.token, "web-form")).toEqual(draft);
+    expect(drafts.claim(draft.token, "web-form")).toBeUndefined();
+
+    drafts.release(draft);
+    expect(drafts.get(draft.token)).toEqual(draft);
+  });
+
+  it("does not bring back an expired draft", () => {
+    const drafts = new DraftStore(-1);
+    const draft = drafts.create();
+    drafts.release(draft);
+    expect(drafts.get(draft.token)).toBeUndefined();
+  });
+});
+
+describe("submit_ticket_draft", () => {
+  async function startDraft() {
+    const store = new MemoryTicketStore();
+    const server = createServer(
+      {
+        storage: { type: "memory", path: "data/drafts-test.json", idPrefix: "CS" },
+        channels: [{ type: "custom", name: "test", deliver: async () => "Received." }],
+        drafts: { ...createConfig().drafts, enabled: true },
+      },
+      { store },
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    const args = { name: "Ada", issue: "The export button does nothing" };
+    const drafted = (await client.callTool({ name: "customer_support", arguments: args })) as CallToolResult;
+    const draftToken = drafted._meta?.draftToken as string;
+    expect(draftToken).toBeTruthy();
+    expect(await store.list()).toEqual([]);
+
+    const submit = (meta?: Record<string, unknown>) =>
+      client.callTool({
+        name: "submit_ticket_draft",
+        arguments: { draftToken, ...args },
+        ...(meta && { _meta: meta }),
+      }) as Promise<CallToolResult>;
+    return { store, submit };
+  }
+
+  it("sends one ticket when Submit is pressed twice at once", async () => {
+    const { store, submit } = await startDraft();
+    const results = await Promise.all([submit(), submit()]);
+    expect(results.map((r) => r.isError ?? false).sort()).toEqual([false, true]);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("keeps the draft open when its ticket is turned away", async () => {
+    const { store, submit } = await startDraft();
+    expect((await submit({ honeypot: "https://spam.example" })).isError).toBe(true);
+    expect((await submit()).isError).toBeFalsy();
+    expect(await store.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @file Ticket drafts: the model fills in the form, the user sends it.
+ *
+ * With `drafts.enabled`, a `customer_support` call from the model opens no
+ * ticket. It gets a draft token instead, passed to the form in the result's
+ * `_meta` while the call's arguments prefill the fields. The ticket is only
+ * sent when the user presses Submit, which calls the app-only
+ * `submit_ticket_draft` tool with the token. Tokens are single-use, expire
+ * after `drafts.ttlMs` and are kept in memory: a restart drops open drafts.
+ */
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import type { AppConfig } from "./config.js";
+
+export interface TicketDraft {
+  /** Random, unguessable ID handed to the form */
+  token: string;
+  /** Name of the API key that started the draft, when auth is on */
+  startedBy?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Open drafts of one ticket store. */
+export class DraftStore {
+  private readonly drafts = new Map<string, TicketDraft>();
+
+  constructor(private ttlMs: number) {}
+
+  /** Apply a reloaded config to drafts started from now on. */
+  configure(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Start a draft for the given caller. */
+  create(startedBy?: string): TicketDraft {
+    this.prune();
+    const now = Date.now();
+    const draft: TicketDraft = {
+      token: randomBytes(24).toString("base64url"),
+      ...(startedBy && { startedBy }),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+    this.drafts.set(draft.token, draft);
+    return draft;
+  }
+
+  /** Look up an open draft. Expired and unknown tokens give undefined. */
+  get(token: string): TicketDraft | undefined {
+    this.prune();
+    return this.drafts.get(token);
+  }
+
+  /** Close a draft once its ticket has been sent. */
+  discard(token: string): void {
+    this.drafts.delete(token);
+  }
+
+  /**
+   * Take an open draft out while its ticket is sent, so a second Submit
+   * (a double click, a retry) cannot send it again. Only the caller that
+   * started the draft may claim it.
+   */
+  claim(token: string, startedBy?: string): TicketDraft | undefined {
+    const draft = this.get(token);
+    if (!draft || draft.startedBy !== startedBy) return undefined;
+    this.drafts.delete(token);
+    return draft;
+  }
+
+  /** Put a claimed draft back, e.g. when its ticket was turned away. */
+  release(draft: TicketDraft): void {
+    if (Date.parse(draft.expiresAt) > Date.now()) this.drafts.set(draft.token, draft);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, draft] of this.drafts) {
+      if (Date.parse(draft.expiresAt) <= now) this.drafts.delete(token);
+    }
+  }
+}
+
+const openStores = new Map<string, DraftStore>();
+
+/**
+ * Return the draft store for the config's storage settings, shared per path
+ * like the ticket store, so a draft started in one stateless HTTP request
+ * can be confirmed in another.
+ */
+export function openDraftStore(config: AppConfig): DraftStore {
+  const file = path.resolve(config.storage.path);
+  const key = `${config.storage.type}:${file}:${config.storage.idPrefix}`;
+
+  let drafts = openStores.get(key);
+  if (drafts) {
+    drafts.configure(config.drafts.ttlMs);
+  } else {
+    drafts = new DraftStore(config.drafts.ttlMs);
+    openStores.set(key, drafts);
+  }
+  return drafts;
+}
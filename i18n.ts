@@ -0,0 +1,493 @@
+/**
+ * @file Message catalogs and translation, shared by the server and the UI.
+ *
+ * Every string the form and the default email templates show is looked up
+ * by key in a catalog. English, German and French are built in;
+ * `AppConfig.i18n.messages` adds locales or replaces messages, and also
+ * translates configured values under these keys:
+ * - `priority.<priority>`, `category.<category>`, `status.<status>`
+ * - `field.<key>.label`, `field.<key>.placeholder`, `field.<key>.option.<option>`
+ * - `responseTime.<priority>` for the acknowledgement
+ *
+ * Messages use `{name}` placeholders. A key with plural forms is looked up
+ * as `<key>.one` / `<key>.other` (by `Intl.PluralRules`) when a numeric
+ * `count` is given. Missing messages fall back to English.
+ */
+import type { FieldConfig, I18nConfig } from "./config.js";
+
+export type Catalog = Record<string, string>;
+
+export type MessageParams = Record<string, string | number | undefined>;
+
+/**
+ * Look up a message. `fallback` is used when no catalog has the key, which
+ * makes configured values (priorities, field labels) show as they are.
+ */
+export type Translate = (key: string, params?: MessageParams, fallback?: string) => string;
+
+const EN: Catalog = {
+  // The customer_support tool, in the default locale
+  "tool.description":
+    "Submit a customer support ticket. Collects the customer's name, " +
+    "issue description, and optional metadata, stores it under a ticket " +
+    "ID (e.g. CS-000123), then delivers it to the support team through " +
+    "every configured channel. Reports which channels delivered and which " +
+    "are queued for automatic retry. Submitting the same issue again " +
+    "returns the existing ticket; do not retry a rate_limited error " +
+    "before retryAfterSeconds.",
+  "tool.draftNote":
+    "Draft mode is on: the call sends nothing but fills in the form, where " +
+    "the user reviews the details and submits the ticket.",
+
+  // Form
+  "form.namePlaceholder": "Your full name",
+  "form.issuePlaceholder": "Describe your issue in detail...",
+  "form.submit": "Submit Ticket",
+  "form.submitting": "Submitting...",
+  "form.submitAnother": "Submit Another Ticket",
+  "form.honeypot": "Leave this field empty",
+  "form.attachmentLimits.one": "{hint} — up to {count} file, {size} each",
+  "form.attachmentLimits.other": "{hint} — up to {count} files, {size} each",
+  "form.removeFile": "Remove {filename}",
+  "form.readError": "Could not read the selected file.",
+  "form.connecting": "Connecting...",
+  "form.configMissing": "App configuration missing from the server.",
+  "form.poweredBy": "Powered by {brand}",
+  "form.serverTools": "Server Tools ({count})",
+  "form.draftNotice": "Please check these details and press Submit to send your ticket.",
+  "form.suggested": "Suggested:",
+  "form.applySuggestion": "Use this suggestion",
+  "form.suggestedTag": "Tag added when you submit",
+  "redaction.removed": "Sensitive data found ({what}): it will be removed before your ticket is sent.",
+  "redaction.rejected": "Sensitive data found ({what}): please remove it, or the ticket cannot be sent.",
+  "redaction.creditCard": "card number",
+  "redaction.secret": "password or access key",
+  "redaction.nationalId": "national ID number",
+
+  // Confirmation
+  "result.submitted": "Ticket {id} submitted.",
+  "result.duplicate": "This looks like ticket {id}, submitted {date}. It is already with the support team, so no new ticket was created.",
+  "result.summary": "Ticket Summary",
+  "result.ackQueued": "A confirmation email to {to} will follow shortly.",
+  "result.queuedForRetry": "(queued for retry)",
+  "result.previewLogged": "(not sent: preview logged)",
+  "result.rateLimited": "Slow down a little",
+  "result.spam": "Submission blocked",
+  "result.sensitiveData": "Sensitive data found",
+  "result.noResponse": "No response from server.",
+  "result.invalidResponse": "Invalid server response.",
+  "result.failed": "Submission failed.",
+
+  // Ticket details, in the form and in emails
+  "ticket.id": "Ticket ID",
+  "ticket.name": "Name",
+  "ticket.issue": "Issue",
+  "ticket.status": "Status",
+  "ticket.priority": "Priority",
+  "ticket.category": "Category",
+  "ticket.tags": "Tags",
+  "ticket.assignee": "Assignee",
+  "ticket.unassigned": "unassigned",
+  "ticket.attachments": "Attachments",
+  "ticket.submitted": "Submitted",
+  "ticket.originalIssue": "Original issue",
+
+  // Validation
+  "validation.required": "{label} is required",
+  "validation.oneOf": "{label} must be one of: {options}",
+  "validation.minLength": "{label} must be at least {count} characters",
+  "validation.maxLength": "{label} must be at most {count} characters",
+  "validation.pattern": "{label} is not in the expected format",
+  "validation.email": "{label} must be a valid email address",
+  "validation.phone": "{label} must be a valid phone number",
+  "validation.number": "{label} must be a number",
+  "validation.min": "{label} must be at least {min}",
+  "validation.max": "{label} must be at most {max}",
+  "validation.maxFiles.one": "{label} accepts at most {count} file",
+  "validation.maxFiles.other": "{label} accepts at most {count} files",
+  "validation.fileType": "{filename} is not an accepted file type ({types})",
+  "validation.fileSize": "{filename} is larger than {size}",
+
+  // Ticket email to the team
+  "email.subject": "Support Request from {name}: {issue}",
+  "email.received": "New support ticket received via {brand}",
+  "email.header": "New support ticket {id}",
+  "email.details": "Ticket Details",
+  "email.end": "End of Ticket",
+  "email.footer": "Submitted {date} via {brand}",
+
+  // Emails to the customer
+  "ack.subject": "We've received your request",
+  "ack.greeting": "Hi {name},",
+  "ack.thanks": "Thanks for contacting {brand}. We've received your request and opened ticket {id}. Please keep this number in the subject line if you reply.",
+  "ack.responseTime": "We aim to respond {time}.",
+  "ack.summary": "What you sent us",
+  "reply.intro": "{author} from {brand} replied to your request {id}:",
+  "reply.keepId": "Please keep {id} in the subject line if you reply.",
+
+  // Notices to the team
+  "comment.subject": "New comment from {author}",
+  "comment.intro": "{author} added a comment to ticket {id}:",
+  "comment.header": "New comment on {id}",
+  "comment.from": "from {author}",
+  "escalation.breach": "SLA breached",
+  "escalation.warning": "SLA at risk",
+  "escalation.missed": "Ticket {id} has missed its {metric} target.",
+  "escalation.atRisk": "Ticket {id} is about to miss its {metric} target.",
+  "escalation.due": "{metric} due {date}",
+  "escalation.dueLabel": "Due",
+  "escalation.policy": "Policy",
+  "escalation.submittedBy": "{date} by {name}",
+  "sla.firstResponse": "first response",
+  "sla.resolution": "resolution",
+};
+
+const DE: Catalog = {
+  "tool.description":
+    "Erstellt ein Support-Ticket. Nimmt Name, Beschreibung des Anliegens " +
+    "und optionale Angaben des Kunden entgegen, speichert sie unter einer " +
+    "Ticket-Nr. (z. B. CS-000123) und stellt sie dem Support-Team über alle " +
+    "konfigurierten Kanäle zu. Meldet, welche Kanäle zugestellt haben und " +
+    "welche automatisch erneut versucht werden. Dasselbe Anliegen erneut zu " +
+    "senden liefert das bestehende Ticket; einen rate_limited-Fehler nicht " +
+    "vor Ablauf von retryAfterSeconds wiederholen.",
+  "tool.draftNote":
+    "Entwurfsmodus ist aktiv: Der Aufruf sendet nichts, sondern füllt das " +
+    "Formular aus, in dem der Nutzer die Angaben prüft und das Ticket sendet.",
+
+  "form.namePlaceholder": "Ihr vollständiger Name",
+  "form.issuePlaceholder": "Beschreiben Sie Ihr Anliegen möglichst genau...",
+  "form.submit": "Ticket senden",
+  "form.submitting": "Wird gesendet...",
+  "form.submitAnother": "Weiteres Ticket senden",
+  "form.honeypot": "Dieses Feld leer lassen",
+  "form.attachmentLimits.one": "{hint} — bis zu {count} Datei, je {size}",
+  "form.attachmentLimits.other": "{hint} — bis zu {count} Dateien, je {size}",
+  "form.removeFile": "{filename} entfernen",
+  "form.readError": "Die Datei konnte nicht gelesen werden.",
+  "form.connecting": "Verbindung wird hergestellt...",
+  "form.configMissing": "Die App-Konfiguration fehlt.",
+  "form.poweredBy": "Bereitgestellt von {brand}",
+  "form.serverTools": "Server-Tools ({count})",
+  "form.draftNotice": "Bitte prüfen Sie die Angaben und senden Sie das Ticket mit „Ticket senden“ ab.",
+  "form.suggested": "Vorschlag:",
+  "form.applySuggestion": "Vorschlag übernehmen",
+  "form.suggestedTag": "Wird beim Senden als Schlagwort hinzugefügt",
+  "redaction.removed": "Sensible Daten erkannt ({what}): Sie werden vor dem Senden entfernt.",
+  "redaction.rejected": "Sensible Daten erkannt ({what}): Bitte entfernen Sie sie, sonst kann das Ticket nicht gesendet werden.",
+  "redaction.creditCard": "Kartennummer",
+  "redaction.secret": "Passwort oder Zugangsschlüssel",
+  "redaction.nationalId": "Ausweis- oder Versicherungsnummer",
+
+  "result.submitted": "Ticket {id} wurde gesendet.",
+  "result.duplicate": "Das sieht nach Ticket {id} vom {date} aus. Es liegt dem Support-Team bereits vor, daher wurde kein neues Ticket angelegt.",
+  "result.summary": "Ticket-Übersicht",
+  "result.ackQueued": "Eine Bestätigung an {to} folgt in Kürze.",
+  "result.queuedForRetry": "(wird erneut versucht)",
+  "result.previewLogged": "(nicht gesendet: nur protokolliert)",
+  "result.rateLimited": "Bitte etwas langsamer",
+  "result.spam": "Anfrage blockiert",
+  "result.sensitiveData": "Sensible Daten erkannt",
+  "result.noResponse": "Keine Antwort vom Server.",
+  "result.invalidResponse": "Ungültige Antwort vom Server.",
+  "result.failed": "Senden fehlgeschlagen.",
+
+  "ticket.id": "Ticket-Nr.",
+  "ticket.name": "Name",
+  "ticket.issue": "Anliegen",
+  "ticket.status": "Status",
+  "ticket.priority": "Priorität",
+  "ticket.category": "Kategorie",
+  "ticket.tags": "Tags",
+  "ticket.assignee": "Zuständig",
+  "ticket.unassigned": "niemand",
+  "ticket.attachments": "Anhänge",
+  "ticket.submitted": "Gesendet",
+  "ticket.originalIssue": "Ursprüngliches Anliegen",
+
+  "validation.required": "{label} ist erforderlich",
+  "validation.oneOf": "{label} muss eines der folgenden sein: {options}",
+  "validation.minLength": "{label} muss mindestens {count} Zeichen lang sein",
+  "validation.maxLength": "{label} darf höchstens {count} Zeichen lang sein",
+  "validation.pattern": "{label} hat nicht das erwartete Format",
+  "validation.email": "{label} muss eine gültige E-Mail-Adresse sein",
+  "validation.phone": "{label} muss eine gültige Telefonnummer sein",
+  "validation.number": "{label} muss eine Zahl sein",
+  "validation.min": "{label} muss mindestens {min} sein",
+  "validation.max": "{label} darf höchstens {max} sein",
+  "validation.maxFiles.one": "{label} erlaubt höchstens {count} Datei",
+  "validation.maxFiles.other": "{label} erlaubt höchstens {count} Dateien",
+  "validation.fileType": "{filename} hat keinen erlaubten Dateityp ({types})",
+  "validation.fileSize": "{filename} ist größer als {size}",
+
+  "email.subject": "Support-Anfrage von {name}: {issue}",
+  "email.received": "Neues Support-Ticket über {brand}",
+  "email.header": "Neues Support-Ticket {id}",
+  "email.details": "Ticket-Details",
+  "email.end": "Ende des Tickets",
+  "email.footer": "Gesendet am {date} über {brand}",
+
+  "ack.subject": "Wir haben Ihre Anfrage erhalten",
+  "ack.greeting": "Hallo {name},",
+  "ack.thanks": "danke, dass Sie sich an {brand} gewandt haben. Wir haben Ihre Anfrage erhalten und das Ticket {id} angelegt. Bitte behalten Sie diese Nummer im Betreff, wenn Sie antworten.",
+  "ack.responseTime": "Wir melden uns {time}.",
+  "ack.summary": "Ihre Angaben",
+  "reply.intro": "{author} von {brand} hat auf Ihre Anfrage {id} geantwortet:",
+  "reply.keepId": "Bitte behalten Sie {id} im Betreff, wenn Sie antworten.",
+
+  "comment.subject": "Neuer Kommentar von {author}",
+  "comment.intro": "{author} hat das Ticket {id} kommentiert:",
+  "comment.header": "Neuer Kommentar zu {id}",
+  "comment.from": "von {author}",
+  "escalation.breach": "SLA verletzt",
+  "escalation.warning": "SLA gefährdet",
+  "escalation.missed": "Ticket {id} hat das Ziel für {metric} verfehlt.",
+  "escalation.atRisk": "Ticket {id} droht das Ziel für {metric} zu verfehlen.",
+  "escalation.due": "{metric} fällig am {date}",
+  "escalation.dueLabel": "Fällig",
+  "escalation.policy": "Richtlinie",
+  "escalation.submittedBy": "{date} von {name}",
+  "sla.firstResponse": "Erstantwort",
+  "sla.resolution": "Lösung",
+
+  "priority.Low": "Niedrig",
+  "priority.Medium": "Mittel",
+  "priority.High": "Hoch",
+  "priority.Urgent": "Dringend",
+  "category.General Inquiry": "Allgemeine Anfrage",
+  "category.Technical Support": "Technischer Support",
+  "category.Billing": "Abrechnung",
+  "category.Feature Request": "Funktionswunsch",
+  "category.Bug Report": "Fehlerbericht",
+  "status.open": "offen",
+  "status.in_progress": "in Bearbeitung",
+  "status.waiting_on_customer": "wartet auf Kunde",
+  "status.resolved": "gelöst",
+  "status.closed": "geschlossen",
+};
+
+const FR: Catalog = {
+  "tool.description":
+    "Crée un ticket d'assistance. Recueille le nom du client, la " +
+    "description du problème et des informations facultatives, les " +
+    "enregistre sous un numéro de ticket (par ex. CS-000123), puis les " +
+    "transmet à l'équipe d'assistance par tous les canaux configurés. " +
+    "Indique les canaux qui ont livré et ceux en attente de nouvelle " +
+    "tentative. Renvoyer le même problème renvoie le ticket existant ; ne " +
+    "pas relancer une erreur rate_limited avant retryAfterSeconds.",
+  "tool.draftNote":
+    "Le mode brouillon est actif : l'appel n'envoie rien mais remplit le " +
+    "formulaire, où l'utilisateur vérifie les informations et envoie le ticket.",
+
+  "form.namePlaceholder": "Votre nom complet",
+  "form.issuePlaceholder": "Décrivez votre problème en détail...",
+  "form.submit": "Envoyer le ticket",
+  "form.submitting": "Envoi en cours...",
+  "form.submitAnother": "Envoyer un autre ticket",
+  "form.honeypot": "Laissez ce champ vide",
+  "form.attachmentLimits.one": "{hint} — jusqu'à {count} fichier de {size}",
+  "form.attachmentLimits.other": "{hint} — jusqu'à {count} fichiers de {size} chacun",
+  "form.removeFile": "Retirer {filename}",
+  "form.readError": "Impossible de lire le fichier sélectionné.",
+  "form.connecting": "Connexion...",
+  "form.configMissing": "La configuration de l'application est introuvable.",
+  "form.poweredBy": "Propulsé par {brand}",
+  "form.serverTools": "Outils du serveur ({count})",
+  "form.draftNotice": "Vérifiez ces informations, puis cliquez sur « Envoyer le ticket » pour l'envoyer.",
+  "form.suggested": "Suggestion :",
+  "form.applySuggestion": "Utiliser cette suggestion",
+  "form.suggestedTag": "Étiquette ajoutée à l'envoi",
+  "redaction.removed": "Données sensibles détectées ({what}) : elles seront supprimées avant l'envoi du ticket.",
+  "redaction.rejected": "Données sensibles détectées ({what}) : veuillez les retirer, sinon le ticket ne peut pas être envoyé.",
+  "redaction.creditCard": "numéro de carte",
+  "redaction.secret": "mot de passe ou clé d'accès",
+  "redaction.nationalId": "numéro d'identification national",
+
+  "result.submitted": "Le ticket {id} a été envoyé.",
+  "result.duplicate": "Cela ressemble au ticket {id}, envoyé le {date}. L'équipe d'assistance l'a déjà reçu, aucun nouveau ticket n'a donc été créé.",
+  "result.summary": "Récapitulatif du ticket",
+  "result.ackQueued": "Un e-mail de confirmation à {to} va suivre.",
+  "result.queuedForRetry": "(nouvelle tentative prévue)",
+  "result.previewLogged": "(non envoyé : aperçu journalisé)",
+  "result.rateLimited": "Un peu de patience",
+  "result.spam": "Envoi bloqué",
+  "result.sensitiveData": "Données sensibles détectées",
+  "result.noResponse": "Aucune réponse du serveur.",
+  "result.invalidResponse": "Réponse du serveur invalide.",
+  "result.failed": "L'envoi a échoué.",
+
+  "ticket.id": "N° de ticket",
+  "ticket.name": "Nom",
+  "ticket.issue": "Problème",
+  "ticket.status": "Statut",
+  "ticket.priority": "Priorité",
+  "ticket.category": "Catégorie",
+  "ticket.tags": "Étiquettes",
+  "ticket.assignee": "Responsable",
+  "ticket.unassigned": "non attribué",
+  "ticket.attachments": "Pièces jointes",
+  "ticket.submitted": "Envoyé",
+  "ticket.originalIssue": "Problème initial",
+
+  "validation.required": "{label} est obligatoire",
+  "validation.oneOf": "{label} doit être l'une des valeurs suivantes : {options}",
+  "validation.minLength": "{label} doit contenir au moins {count} caractères",
+  "validation.maxLength": "{label} doit contenir au plus {count} caractères",
+  "validation.pattern": "{label} n'a pas le format attendu",
+  "validation.email": "{label} doit être une adresse e-mail valide",
+  "validation.phone": "{label} doit être un numéro de téléphone valide",
+  "validation.number": "{label} doit être un nombre",
+  "validation.min": "{label} doit être au moins {min}",
+  "validation.max": "{label} doit être au plus {max}",
+  "validation.maxFiles.one": "{label} accepte au plus {count} fichier",
+  "validation.maxFiles.other": "{label} accepte au plus {count} fichiers",
+  "validation.fileType": "{filename} n'est pas d'un type accepté ({types})",
+  "validation.fileSize": "{filename} dépasse {size}",
+
+  "email.subject": "Demande d'assistance de {name} : {issue}",
+  "email.received": "Nouveau ticket reçu via {brand}",
+  "email.header": "Nouveau ticket {id}",
+  "email.details": "Détails du ticket",
+  "email.end": "Fin du ticket",
+  "email.footer": "Envoyé le {date} via {brand}",
+
+  "ack.subject": "Nous avons bien reçu votre demande",
+  "ack.greeting": "Bonjour {name},",
+  "ack.thanks": "Merci d'avoir contacté {brand}. Nous avons bien reçu votre demande et ouvert le ticket {id}. Merci de conserver ce numéro dans l'objet si vous répondez.",
+  "ack.responseTime": "Nous vous répondrons {time}.",
+  "ack.summary": "Ce que vous nous avez envoyé",
+  "reply.intro": "{author} de {brand} a répondu à votre demande {id} :",
+  "reply.keepId": "Merci de conserver {id} dans l'objet si vous répondez.",
+
+  "comment.subject": "Nouveau commentaire de {author}",
+  "comment.intro": "{author} a commenté le ticket {id} :",
+  "comment.header": "Nouveau commentaire sur {id}",
+  "comment.from": "de {author}",
+  "escalation.breach": "SLA dépassé",
+  "escalation.warning": "SLA menacé",
+  "escalation.missed": "Le ticket {id} a manqué son objectif de {metric}.",
+  "escalation.atRisk": "Le ticket {id} risque de manquer son objectif de {metric}.",
+  "escalation.due": "{metric} attendue le {date}",
+  "escalation.dueLabel": "Échéance",
+  "escalation.policy": "Politique",
+  "escalation.submittedBy": "{date} par {name}",
+  "sla.firstResponse": "première réponse",
+  "sla.resolution": "résolution",
+
+  "priority.Low": "Basse",
+  "priority.Medium": "Moyenne",
+  "priority.High": "Haute",
+  "priority.Urgent": "Urgente",
+  "category.General Inquiry": "Question générale",
+  "category.Technical Support": "Assistance technique",
+  "category.Billing": "Facturation",
+  "category.Feature Request": "Demande de fonctionnalité",
+  "category.Bug Report": "Signalement de bug",
+  "status.open": "ouvert",
+  "status.in_progress": "en cours",
+  "status.waiting_on_customer": "en attente du client",
+  "status.resolved": "résolu",
+  "status.closed": "fermé",
+};
+
+/** The catalogs that ship with the app, keyed by language. */
+export const BUILT_IN_CATALOGS: Record<string, Catalog> = { en: EN, de: DE, fr: FR };
+
+/** The language part of a locale: "de" for "de-AT". */
+function language(locale: string): string {
+  return locale.split("-")[0].toLowerCase();
+}
+
+/**
+ * Pick the configured locale closest to the one asked for: an exact match,
+ * else one for the same language, else the default.
+ */
+export function resolveLocale(i18n: Pick<I18nConfig, "locales" | "defaultLocale">, requested?: string): string {
+  if (!requested) return i18n.defaultLocale;
+  const wanted = requested.toLowerCase();
+  return (
+    i18n.locales.find((l) => l.toLowerCase() === wanted) ??
+    i18n.locales.find((l) => language(l) === language(wanted)) ??
+    i18n.defaultLocale
+  );
+}
+
+function interpolate(message: string, params: MessageParams): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : String(params[name]),
+  );
+}
+
+/**
+ * A translator for one locale: English, then the built-in catalog for the
+ * language and the locale, then the configured messages likewise — later
+ * ones win.
+ */
+export function createTranslator(i18n: Pick<I18nConfig, "messages">, locale: string): Translate {
+  const lang = language(locale);
+  const catalog: Catalog = {
+    ...EN,
+    ...BUILT_IN_CATALOGS[lang],
+    ...BUILT_IN_CATALOGS[locale],
+    ...i18n.messages[lang],
+    ...i18n.messages[locale],
+  };
+  const plurals = new Intl.PluralRules(locale);
+
+  return (key, params = {}, fallback) => {
+    const plural =
+      typeof params.count === "number" ? catalog[`${key}.${plurals.select(params.count)}`] : undefined;
+    const message = plural ?? catalog[key] ?? catalog[`${key}.other`] ?? fallback ?? key;
+    return interpolate(message, params);
+  };
+}
+
+/** English messages only, for callers that have no config at hand. */
+export const translateEnglish: Translate = createTranslator({ messages: {} }, "en");
+
+/** Whether a string names an IANA time zone the runtime knows. */
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The display name of a priority, category or status. */
+export function valueLabel(
+  t: Translate,
+  kind: "priority" | "category" | "status",
+  value: string,
+): string {
+  return t(`${kind}.${value}`, undefined, value);
+}
+
+export function fieldLabel(t: Translate, field: Pick<FieldConfig, "key" | "label">): string {
+  return t(`field.${field.key}.label`, undefined, field.label);
+}
+
+export function fieldPlaceholder(t: Translate, field: Pick<FieldConfig, "key" | "placeholder">): string {
+  return t(`field.${field.key}.placeholder`, undefined, field.placeholder);
+}
+
+export function optionLabel(t: Translate, field: Pick<FieldConfig, "key">, option: string): string {
+  return t(`field.${field.key}.option.${option}`, undefined, option);
+}
+
+/**
+ * Format an ISO timestamp for a locale, in a time zone when given (else
+ * the runtime's).
+ */
+export function formatDate(value: string, locale: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  }).format(new Date(value));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { threadMessageId } from "./comments.js";
+import { createConfig, type AppConfig } from "./config.js";
+import { receiveEmail, stripQuotedReply } from "./inbound.js";
+import { openTicketStore, type Ticket } from "./tickets.js";
+
+let stores = 0;
+
+/** A config with a memory store of its own, and a ticket from ada@example.com in it. */
+async function setup(): Promise<{ config: AppConfig; ticket: Ticket }> {
+  const config = createConfig({
+    storage: { type: "memory", path: `data/inbound-test-${++stores}.json`, idPrefix: "CS" },
+    channels: [{ type: "custom", name: "test", deliver: async () => "Received." }],
+    inbound: { ...createConfig().inbound, enabled: true },
+  });
+  const ticket = await openTicketStore(config.storage).create({
+    name: "Ada",
+    issue: "Cannot log in",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    customFields: { email: "ada@example.com" },
+    attachments: [],
+  });
+  return { config, ticket };
+}
+
+function email(headers: Record<string, string>, body: string): string {
+  const lines = Object.entries({ "Message-ID": `<m${Math.random().toString(36).slice(2)}@mail.example.com>`, ...headers });
+  return `${lines.map(([key, value]) => `${key}: ${value}`).join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+describe("stripQuotedReply", () => {
+  it("keeps only the new text of a reply", () => {
+    expect(stripQuotedReply("Thanks, that worked.\n\nOn Mon, 19 Oct 2026 Sam wrote:\n> Try again")).toBe(
+      "Thanks, that worked.",
+    );
+    expect(stripQuotedReply("Still broken.\n> quoted\n-- \nAda")).toBe("Still broken.");
+  });
+});
+
+describe("receiveEmail", () => {
+  it("adds a reply to the ticket its thread Message-ID names", async () => {
+    const { config, ticket } = await setup();
+    const result = await receiveEmail(
+      config,
+      email(
+        {
+          From: "Ada <ada@example.com>",
+          To: config.supportEmail,
+          Subject: "Re: your ticket",
+          "In-Reply-To": threadMessageId(ticket, config),
+        },
+        "It works now, thanks!",
+      ),
+    );
+    expect(result).toEqual({ action: "comment", ticketId: ticket.id, message: `Reply added to ${ticket.id}.` });
+
+    const [comment] = (await openTicketStore(config.storage).get(ticket.id))?.comments ?? [];
+    expect(comment).toMatchObject({ from: "customer", visibility: "public", body: "It works now, thanks!" });
+  });
+
+  it("finds the ticket by the ID in the subject and keeps strangers' mail internal", async () => {
+    const { config, ticket } = await setup();
+    const result = await receiveEmail(
+      config,
+      email({ From: "Eve <eve@example.net>", Subject: `Re: [${ticket.id.toLowerCase()}] Cannot log in` }, "Me too"),
+    );
+    expect(result.action).toBe("comment");
+    expect(result.message).toContain("eve@example.net is not the customer");
+
+    const [comment] = (await openTicketStore(config.storage).get(ticket.id))?.comments ?? [];
+    expect(comment).toMatchObject({ visibility: "internal", author: "Eve <eve@example.net>" });
+  });
+
+  it("ignores redelivered, automatic and own mail", async () => {
+    const { config, ticket } = await setup();
+    const message = email({ From: "ada@example.com", Subject: `Re: [${ticket.id}]` }, "One more thing");
+    expect((await receiveEmail(config, message)).action).toBe("comment");
+    expect(await receiveEmail(config, message)).toMatchObject({
+      action: "ignored",
+      message: "The message was already received.",
+    });
+
+    const auto = email({ From: "ada@example.com", Subject: `[${ticket.id}]`, "Auto-Submitted": "auto-replied" }, "Away");
+    expect((await receiveEmail(config, auto)).message).toBe("Automatic replies are ignored.");
+
+    const own = email({ From: config.supportEmail, Subject: `[${ticket.id}]` }, "Loop");
+    expect((await receiveEmail(config, own)).message).toBe("Mail from the support address is ignored.");
+  });
+
+  it("opens a new ticket for mail that references no ticket of ours", async () => {
+    const { config, ticket } = await setup();
+    const result = await receiveEmail(
+      config,
+      email({ From: "bob@example.org", Subject: "Hello", References: "<unrelated@elsewhere.example>" }, "A new question"),
+    );
+    expect(result.action).toBe("ticket");
+    expect(result.ticketId).not.toBe(ticket.id);
+
+    const opened = await openTicketStore(config.storage).get(result.ticketId ?? "");
+    expect(opened).toMatchObject({ name: "bob", issue: "Hello\n\nA new question", customFields: { email: "bob@example.org" } });
+  });
+
+  it("opens no ticket for unmatched mail when ticket creation is off", async () => {
+    const { config } = await setup();
+    const closed = { ...config, inbound: { ...config.inbound, createTickets: false } };
+    expect(await receiveEmail(closed, email({ From: "bob@example.org", Subject: "Hello" }, "Hi"))).toEqual({
+      action: "ignored",
+      message: "The message matches no ticket.",
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @file Inbound email: customer replies become ticket comments.
+ *
+ * A mail relay (or an MTA pipe) posts each raw RFC 822 message to
+ * `/inbound/email`. The message is matched to a ticket through the
+ * In-Reply-To / References headers of our thread Message-IDs, or the
+ * `[CS-000123]` token in the subject. Mail from the ticket's customer is
+ * added as a public comment, quoted history stripped, and forwarded to the
+ * team; mail from anyone else is kept as an internal note. Mail that matches
+ * no ticket opens a new one when `inbound.createTickets` is on.
+ * Auto-replies, our own mail and redelivered messages are ignored, and so
+ * is mail a "reject" redaction rule refuses; other sensitive data is
+ * redacted as it is for the form.
+ */
+import { simpleParser, type ParsedMail } from "mailparser";
+import { addComment } from "./comments.js";
+import type { AppConfig } from "./config.js";
+import { isSupportAddress } from "./delivery.js";
+import { openOutbox } from "./outbox.js";
+import { checkEmailRateLimit, checkSpam } from "./protection.js";
+import { redactFields, rejectionMessage } from "./redaction.js";
+import { routeTicket } from "./routing.js";
+import {
+  type AttachmentFile,
+  storeAttachments,
+  type Ticket,
+  type TicketComment,
+  type TicketStore,
+} from "./tickets.js";
+import { openTicketStore } from "./tickets.js";
+
+export interface InboundResult {
+  /**
+   * - "comment" — added to an existing ticket
+   * - "ticket"  — opened a new ticket
+   * - "ignored" — dropped, see `message`
+   */
+  action: "comment" | "ticket" | "ignored";
+  ticketId?: string;
+  message: string;
+}
+
+/** Lines that introduce the quoted message in common mail clients. */
+const QUOTE_MARKERS = [
+  /^On .+wrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From: .+/,
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The new text of a reply: everything above the quoted message and the
+ * signature separator, without `>`-quoted lines.
+ */
+export function stripQuotedReply(text: string): string {
+  const kept: string[] = [];
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (line === "-- " || QUOTE_MARKERS.some((marker) => marker.test(line.trim()))) break;
+    if (line.trimStart().startsWith(">")) continue;
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+/** Auto-replies, bounces and list mail, which must never be answered. */
+function isAutomated(mail: ParsedMail): boolean {
+  const autoSubmitted = String(mail.headers.get("auto-submitted") ?? "no").toLowerCase();
+  const precedence = String(mail.headers.get("precedence") ?? "").toLowerCase();
+  return (
+    autoSubmitted !== "no" ||
+    ["bulk", "junk", "list", "auto_reply"].includes(precedence) ||
+    mail.headers.has("x-autoreply") ||
+    mail.headers.has("x-autorespond")
+  );
+}
+
+function referencedIds(mail: ParsedMail): string[] {
+  const references = mail.references ?? [];
+  return [
+    ...(mail.inReplyTo ? [mail.inReplyTo] : []),
+    ...(Array.isArray(references) ? references : [references]),
+  ].flatMap((value) => value.match(/<[^>]+>/g) ?? []);
+}
+
+/**
+ * Find the ticket a message belongs to: by the ticket ID in the Message-IDs
+ * it replies to, by a comment with one of those Message-IDs, or by the
+ * ticket ID in its subject.
+ */
+async function findTicket(
+  config: AppConfig,
+  store: TicketStore,
+  mail: ParsedMail,
+): Promise<Ticket | undefined> {
+  const prefix = escapeRegExp(config.storage.idPrefix);
+  const ids = referencedIds(mail);
+
+  const threadId = new RegExp(`^<(${prefix}-\\d+)(?:\\.[^@>]*)?@`, "i");
+  for (const id of ids) {
+    const match = threadId.exec(id);
+    const ticket = match && (await store.get(match[1]));
+    if (ticket) return ticket;
+  }
+
+  if (ids.length > 0) {
+    const wanted = new Set(ids.map((id) => id.toLowerCase()));
+    const ticket = (await store.list()).find((t) =>
+      t.comments?.some((c) => c.messageId && wanted.has(c.messageId.toLowerCase())),
+    );
+    if (ticket) return ticket;
+  }
+
+  const subjectId = new RegExp(`\\[(${prefix}-\\d+)\\]`, "i").exec(mail.subject ?? "");
+  return subjectId ? store.get(subjectId[1]) : undefined;
+}
+
+/**
+ * The message's attachments that fit the configured limits, leaving out
+ * images embedded in the HTML body. Also counts the ones dropped.
+ */
+function keptAttachments(config: AppConfig, mail: ParsedMail): { files: AttachmentFile[]; dropped: number } {
+  const { maxAttachments, maxAttachmentBytes } = config.inbound;
+  const candidates = mail.attachments.filter((a) => !a.related);
+  const files = candidates
+    .filter((a) => a.size <= maxAttachmentBytes)
+    .slice(0, maxAttachments)
+    .map((a) => ({
+      field: "email",
+      filename: a.filename || "attachment",
+      mimeType: a.contentType,
+      size: a.size,
+      data: a.content.toString("base64"),
+    }));
+  return { files, dropped: candidates.length - files.length };
+}
+
+function droppedNote(dropped: number): string {
+  return dropped > 0 ? ` ${dropped} attachment(s) over the limits were dropped.` : "";
+}
+
+/**
+ * Handle one raw inbound email: add it to its ticket, open a new ticket
+ * or ignore it. Comments and new tickets are delivered through the outbox
+ * like those made with the tools.
+ *
+ * @throws Error when the message cannot be parsed.
+ */
+export async function receiveEmail(config: AppConfig, raw: Buffer | string): Promise<InboundResult> {
+  const mail = await simpleParser(raw);
+  const sender = mail.from?.value[0];
+  const address = sender?.address?.trim();
+  if (!address) return { action: "ignored", message: "The message has no sender address." };
+  if (isAutomated(mail)) return { action: "ignored", message: "Automatic replies are ignored." };
+  if (isSupportAddress(config, address)) {
+    return { action: "ignored", message: "Mail from the support address is ignored." };
+  }
+
+  const store = openTicketStore(config.storage);
+  const outbox = openOutbox(config, store);
+  const body = stripQuotedReply(mail.text ?? "");
+  const { files, dropped } = keptAttachments(config, mail);
+  const messageId = mail.messageId?.trim() || undefined;
+
+  const existing = await findTicket(config, store, mail);
+  if (existing) {
+    if (messageId && existing.comments?.some((c) => c.messageId === messageId)) {
+      return { action: "ignored", ticketId: existing.id, message: "The message was already received." };
+    }
+    if (!body && files.length === 0) {
+      return { action: "ignored", ticketId: existing.id, message: "The reply has no new text." };
+    }
+    if (isSupportAddress(config, address, existing)) {
+      return { action: "ignored", ticketId: existing.id, message: "Mail from the team's address is ignored." };
+    }
+
+    const redaction = redactFields(config, { body });
+    if (redaction.rejected.length > 0) {
+      return { action: "ignored", ticketId: existing.id, message: rejectionMessage(redaction.rejected) };
+    }
+
+    // Only the address the ticket was opened with may speak for the customer
+    const customer = existing.customFields[config.acknowledgement.emailField]?.trim().toLowerCase();
+    const verified = customer === address.toLowerCase();
+
+    const attachments = await storeAttachments(store, files);
+    let comment: TicketComment | undefined;
+    const ticket = await store.update(existing.id, (t) => {
+      comment = addComment(
+        t,
+        {
+          // Strangers are named in full, so agents can tell who wrote
+          author: verified ? sender?.name || address : sender?.name ? `${sender.name} <${address}>` : address,
+          from: "customer",
+          visibility: verified ? "public" : "internal",
+          body: redaction.values.body || `(${files.length} attachment(s))`,
+          ...(redaction.redactions.length > 0 && { redactions: redaction.redactions }),
+          ...(messageId && { messageId }),
+          ...(verified && mail.inReplyTo && { inReplyTo: mail.inReplyTo }),
+          attachments,
+        },
+        config,
+      );
+    });
+    if (!ticket || !comment) {
+      return { action: "ignored", message: `Ticket ${existing.id} no longer exists.` };
+    }
+
+    await outbox.comment(ticket, comment);
+    return {
+      action: "comment",
+      ticketId: ticket.id,
+      message:
+        (verified
+          ? `Reply added to ${ticket.id}.`
+          : `${address} is not the customer on ${ticket.id}, so the message was kept as an internal note.`) +
+        droppedNote(dropped),
+    };
+  }
+
+  if (!config.inbound.createTickets) {
+    return { action: "ignored", message: "The message matches no ticket." };
+  }
+
+  const subject = mail.subject?.trim();
+  const text = [subject, body].filter(Boolean).join("\n\n");
+  if (!text) return { action: "ignored", message: "The message has no subject or text." };
+
+  const redaction = redactFields(config, { name: sender?.name?.trim() || address.split("@")[0], issue: text });
+  if (redaction.rejected.length > 0) {
+    return { action: "ignored", message: rejectionMessage(redaction.rejected) };
+  }
+  const { name, issue } = redaction.values;
+
+  const spam = checkSpam(config, { name, issue });
+  if (spam) return { action: "ignored", message: spam.message };
+  const limited = checkEmailRateLimit(config, address);
+  if (limited) return { action: "ignored", message: limited.message };
+
+  const customFields = { [config.acknowledgement.emailField]: address };
+  const route = routeTicket(config, { issue, category: config.defaultCategory, customFields });
+  const ticket = await store.create({
+    status: config.lifecycle.initialStatus,
+    name,
+    issue,
+    priority: route.priority || config.defaultPriority,
+    category: config.defaultCategory,
+    ...(route.assignee && { assignee: route.assignee }),
+    ...(route.tags.length > 0 && { tags: route.tags }),
+    ...(route.routing && { routing: route.routing }),
+    ...(redaction.redactions.length > 0 && { redactions: redaction.redactions }),
+    customFields,
+    attachments: await storeAttachments(store, files),
+  });
+  await outbox.submit(ticket);
+
+  return {
+    action: "ticket",
+    ticketId: ticket.id,
+    message: `Ticket ${ticket.id} opened from ${address}.${droppedNote(dropped)}`,
+  };
+}
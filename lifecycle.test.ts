@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createConfig } from "./config.js";
+import { applyTicketUpdate, canTransition } from "./lifecycle.js";
+import type { Ticket } from "./tickets.js";
+
+const config = createConfig();
+
+function newTicket(): Ticket {
+  return {
+    id: "CS-000001",
+    name: "Ada",
+    issue: "Cannot log in",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    customFields: {},
+    attachments: [],
+    createdAt: "2026-10-19T10:00:00.000Z",
+    updatedAt: "2026-10-19T10:00:00.000Z",
+    history: [],
+  };
+}
+
+describe("canTransition", () => {
+  it("follows the configured transitions", () => {
+    expect(canTransition(config.lifecycle, "open", "in_progress")).toBe(true);
+    expect(canTransition(config.lifecycle, "closed", "resolved")).toBe(false);
+    expect(canTransition(config.lifecycle, "unknown", "open")).toBe(false);
+  });
+});
+
+describe("applyTicketUpdate", () => {
+  it("records one history entry per changed field", () => {
+    const ticket = newTicket();
+    const changes = applyTicketUpdate(
+      ticket,
+      { status: "in_progress", priority: "High", category: "Technical Support", assignee: "sam" },
+      "lee",
+      config,
+      "Taking this",
+    );
+    expect(changes.map((c) => [c.field, c.from, c.to])).toEqual([
+      ["status", "open", "in_progress"],
+      ["priority", "Medium", "High"],
+      ["assignee", null, "sam"],
+    ]);
+    expect(changes.every((c) => c.changedBy === "lee" && c.note === "Taking this")).toBe(true);
+    expect(ticket).toMatchObject({ status: "in_progress", priority: "High", assignee: "sam" });
+    expect(ticket.history).toEqual(changes);
+  });
+
+  it("unassigns with an empty assignee", () => {
+    const ticket = { ...newTicket(), assignee: "sam" };
+    applyTicketUpdate(ticket, { assignee: "" }, "lee", config);
+    expect(ticket.assignee).toBeUndefined();
+    expect(ticket.history[0]).toMatchObject({ field: "assignee", from: "sam", to: null });
+  });
+
+  it("refuses transitions the lifecycle does not allow", () => {
+    const ticket = { ...newTicket(), status: "closed" };
+    expect(() => applyTicketUpdate(ticket, { status: "resolved" }, "lee", config)).toThrow(
+      'Cannot move CS-000001 from "closed" to "resolved". Allowed: open.',
+    );
+    expect(ticket.history).toEqual([]);
+  });
+
+  it("refuses unknown values and updates that change nothing", () => {
+    const ticket = newTicket();
+    expect(() => applyTicketUpdate(ticket, { status: "archived" }, "lee", config)).toThrow('Unknown status "archived".');
+    expect(() => applyTicketUpdate(ticket, { priority: "Critical" }, "lee", config)).toThrow(
+      'Unknown priority "Critical".',
+    );
+    expect(() => applyTicketUpdate(ticket, { status: "open" }, "lee", config)).toThrow("No changes to apply to CS-000001.");
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file Ticket lifecycle state machine.
+ *
+ * Statuses and the transitions allowed between them are defined in
+ * `AppConfig.lifecycle`. Changes to status, priority, category and assignee
+ * are validated here and recorded in the ticket's history.
+ */
+import type { AppConfig, LifecycleConfig } from "./config.js";
+import type { Ticket, TicketChange, TrackedField } from "./tickets.js";
+
+export interface TicketUpdate {
+  status?: string;
+  priority?: string;
+  category?: string;
+  /** New assignee — an empty string or null unassigns the ticket */
+  assignee?: string | null;
+}
+
+/**
+ * Whether the lifecycle allows moving a ticket from one status to another.
+ */
+export function canTransition(
+  lifecycle: LifecycleConfig,
+  from: string,
+  to: string,
+): boolean {
+  return lifecycle.transitions[from]?.includes(to) ?? false;
+}
+
+/**
+ * Apply an update to a ticket, enforcing the configured transitions, and
+ * append one history entry per changed field. Fields whose value does not
+ * change are ignored.
+ *
+ * @throws Error when a transition or value is not allowed, or when the
+ *   update changes nothing.
+ */
+export function applyTicketUpdate(
+  ticket: Ticket,
+  update: TicketUpdate,
+  actor: string,
+  config: AppConfig,
+  note?: string,
+): TicketChange[] {
+  const { lifecycle } = config;
+
+  if (update.status !== undefined && update.status !== ticket.status) {
+    if (!lifecycle.statuses.includes(update.status)) {
+      throw new Error(`Unknown status "${update.status}".`);
+    }
+    if (!canTransition(lifecycle, ticket.status, update.status)) {
+      const allowed = lifecycle.transitions[ticket.status] ?? [];
+      throw new Error(
+        `Cannot move ${ticket.id} from "${ticket.status}" to "${update.status}". ` +
+          `Allowed: ${allowed.length > 0 ? allowed.join(", ") : "none"}.`,
+      );
+    }
+  }
+  if (update.priority !== undefined && !config.priorities.includes(update.priority)) {
+    throw new Error(`Unknown priority "${update.priority}".`);
+  }
+  if (update.category !== undefined && !config.categories.includes(update.category)) {
+    throw new Error(`Unknown category "${update.category}".`);
+  }
+
+  const changedAt = new Date().toISOString();
+  const changes: TicketChange[] = [];
+  const track = (field: TrackedField, to: string | null) => {
+    const from = ticket[field] ?? null;
+    if (from === to) return;
+    changes.push({ field, from, to, changedBy: actor, changedAt, ...(note && { note }) });
+    if (to === null) delete ticket[field];
+    else ticket[field] = to;
+  };
+
+  if (update.status !== undefined) track("status", update.status);
+  if (update.priority !== undefined) track("priority", update.priority);
+  if (update.category !== undefined) track("category", update.category);
+  if (update.assignee !== undefined) track("assignee", update.assignee || null);
+
+  if (changes.length === 0) {
+    throw new Error(`No changes to apply to ${ticket.id}.`);
+  }
+
+  ticket.history.push(...changes);
+  return changes;
+}
@@ -1,64 +1,242 @@
 /**
  * Entry point for running the Customer Service MCP server.
  * Run with: npx @customer-service/mcp-app
- * Or: node dist/index.js [--stdio]
+ * Or: node dist/index.js [--stdio] [--config support.yaml] [--tenant acme]
  */
 
-import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import cors from "cors";
-import type { Request, Response } from "express";
-import { createServer } from "./server.js";
+import express, { type Request, type Response } from "express";
+import { randomUUID } from "node:crypto";
+import {
+  ANONYMOUS_CALLER,
+  authenticate,
+  authRequired,
+  createServer,
+  findTenant,
+  inboundTokenMatches,
+  keepRestartOnly,
+  loadConfig,
+  loadTenants,
+  receiveEmail,
+  reloadTenants,
+  tokenFromHeaders,
+  watchConfig,
+  type AppConfig,
+  type Caller,
+} from "./server.js";
+
+/** An MCP session on the HTTP transport: one server, kept between requests. */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  /** Host and path the session was opened on, so it stays with its tenant */
+  scope: string;
+  /** Name of the API key that opened it, or of the anonymous caller */
+  caller: string;
+  lastSeen: number;
+  /** Open GET streams, which keep an otherwise quiet session alive */
+  streams: number;
+}
+
+/**
+ * Send a JSON-RPC error response outside of any MCP session.
+ */
+function sendError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
 
 /**
- * Starts the MCP server with Streamable HTTP transport (stateless mode).
+ * Express's `trust proxy` setting from TRUST_PROXY: "true"/"false", a hop
+ * count, or a comma-separated list of proxy addresses and subnets.
+ */
+function trustProxySetting(value: string): boolean | number | string {
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+/**
+ * Starts the MCP server with Streamable HTTP transport. Requests are served
+ * on `/mcp` and `/mcp/<tenant>`; `resolveConfig` picks the config for a
+ * request, or returns undefined when it matches no tenant. The config's API
+ * keys and CORS origins are enforced per request.
+ *
+ * An `initialize` request opens a session: its server is kept, with the
+ * config of that moment, so it can push resource notifications over a GET
+ * stream until the client ends the session or leaves it idle for
+ * SESSION_IDLE_MS. Requests without a session ID are served statelessly by
+ * a fresh server each.
  */
 export async function startStreamableHTTPServer(
-  createServer: () => McpServer,
+  resolveConfig: (req: Request) => AppConfig | undefined,
 ): Promise<void> {
   const port = parseInt(process.env.PORT ?? "3001", 10);
+  const host = process.env.HOST ?? "0.0.0.0";
+
+  // Attachments arrive base64-encoded in the JSON body, so allow more than
+  // express.json()'s 100 KB default.
+  const app = express();
+  // Behind a reverse proxy every request would come from the proxy's
+  // address, so per-client limits need the forwarded client address
+  if (process.env.TRUST_PROXY) app.set("trust proxy", trustProxySetting(process.env.TRUST_PROXY));
+  app.use(express.json({ limit: process.env.MAX_REQUEST_BODY ?? "25mb" }));
+
+  const allowOrigins = cors<Request>((req, callback) => {
+    const origins = resolveConfig(req)?.http.corsOrigins ?? [];
+    callback(null, {
+      origin: origins.includes("*") ? "*" : origins,
+      exposedHeaders: ["WWW-Authenticate", "Mcp-Session-Id"],
+    });
+  });
 
-  const app = createMcpExpressApp({ host: "0.0.0.0" });
-  app.use(cors());
+  const sessions = new Map<string, Session>();
+  const idleMs = parseInt(process.env.SESSION_IDLE_MS ?? "1800000", 10);
+
+  // Sessions a client abandoned without a DELETE are closed after a while
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (session.streams === 0 && session.lastSeen < cutoff) {
+        session.transport.close().catch(() => {});
+      }
+    }
+  }, Math.min(idleMs, 60_000));
+  sweep.unref();
+
+  app.all(["/mcp", "/mcp/:tenant"], allowOrigins, async (req: Request, res: Response) => {
+    const config = resolveConfig(req);
+    if (!config) {
+      sendError(res, 404, -32600, "Unknown tenant");
+      return;
+    }
+
+    // Without keys anyone may submit tickets, but only stdio is trusted
+    // with the rest
+    let caller: Caller = ANONYMOUS_CALLER;
+    if (authRequired(config)) {
+      const token = tokenFromHeaders(req.headers);
+      const authenticated = token ? authenticate(config, token) : undefined;
+      if (!authenticated) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp"');
+        sendError(res, 401, -32001, token ? "Invalid API key" : "API key required");
+        return;
+      }
+      caller = authenticated;
+    }
+
+    const handle = async (transport: StreamableHTTPServerTransport) => {
+      try {
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        console.error("MCP error:", error);
+        if (!res.headersSent) {
+          sendError(res, 500, -32603, "Internal server error");
+        }
+      }
+    };
+
+    const scope = `${req.hostname}${req.path}`;
+    const sessionId = req.header("mcp-session-id");
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.scope !== scope) {
+        sendError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (session.caller !== caller.name) {
+        sendError(res, 403, -32001, "The session belongs to another API key");
+        return;
+      }
+      session.lastSeen = Date.now();
+      if (req.method === "GET") {
+        session.streams++;
+        res.on("close", () => {
+          session.streams--;
+          session.lastSeen = Date.now();
+        });
+      }
+      await handle(session.transport);
+      return;
+    }
+
+    const server = createServer(config, {
+      caller,
+      client: caller.anonymous ? req.ip : caller.name,
+    });
+
+    if (req.method === "POST" && isInitializeRequest(req.body)) {
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, scope, caller: caller.name, lastSeen: Date.now(), streams: 0 });
+        },
+      });
+      // Fires on DELETE, on the idle sweep and on shutdown
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+      await server.connect(transport);
+      await handle(transport);
+      return;
+    }
 
-  app.all("/mcp", async (req: Request, res: Response) => {
-    const server = createServer();
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined,
     });
-
     res.on("close", () => {
       transport.close().catch(() => {});
       server.close().catch(() => {});
     });
+    await server.connect(transport);
+    await handle(transport);
+  });
 
-    try {
-      await server.connect(transport);
-      await transport.handleRequest(req, res, req.body);
-    } catch (error) {
-      console.error("MCP error:", error);
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: "2.0",
-          error: { code: -32603, message: "Internal server error" },
-          id: null,
-        });
+  // A mail relay posts each raw message here, on the tenant's path when
+  // tenants are configured
+  app.post(
+    ["/inbound/email", "/inbound/email/:tenant"],
+    express.raw({ type: "*/*", limit: process.env.MAX_REQUEST_BODY ?? "25mb" }),
+    async (req: Request, res: Response) => {
+      const config = resolveConfig(req);
+      if (!config?.inbound.enabled) {
+        res.status(404).json({ status: "error", message: config ? "Inbound email is disabled" : "Unknown tenant" });
+        return;
       }
-    }
-  });
+      if (!inboundTokenMatches(config, tokenFromHeaders(req.headers))) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="inbound"');
+        res.status(401).json({ status: "error", message: "Invalid inbound email token" });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ status: "error", message: "Expected a raw email message as the request body" });
+        return;
+      }
+
+      try {
+        res.json({ status: "ok", ...(await receiveEmail(config, req.body)) });
+      } catch (error) {
+        console.error("Inbound email error:", error);
+        res.status(500).json({ status: "error", message: "The message could not be processed" });
+      }
+    },
+  );
 
-  const httpServer = app.listen(port, (err) => {
+  const httpServer = app.listen(port, host, (err) => {
     if (err) {
       console.error("Failed to start server:", err);
       process.exit(1);
     }
-    console.log(`Customer Service MCP server listening on http://localhost:${port}/mcp`);
+    console.log(`Customer Service MCP server listening on http://${host}:${port}/mcp`);
   });
 
   const shutdown = () => {
     console.log("\nShutting down...");
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => {});
+    }
     httpServer.close(() => process.exit(0));
   };
 
@@ -75,11 +253,52 @@ export async function startStdioServer(
   await createServer().connect(new StdioServerTransport());
 }
 
+/**
+ * Value of a command-line option given as `--name value` or `--name=value`.
+ */
+function argValue(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(name);
+  if (index !== -1) return args[index + 1];
+  return args.find((a) => a.startsWith(`${name}=`))?.slice(name.length + 1);
+}
+
 async function main() {
+  const configPath = argValue("--config");
+
+  // Configuration problems are listed without a stack trace
+  const exitWith = (error: Error): never => {
+    console.error(error.message);
+    process.exit(1);
+  };
+  let config = await loadConfig(configPath).catch(exitWith);
+  let tenants = configPath ? await loadTenants(configPath).catch(exitWith) : [];
+
   if (process.argv.includes("--stdio")) {
-    await startStdioServer(createServer);
+    const tenantId = argValue("--tenant");
+    const tenant = tenantId ? findTenant(tenants, { id: tenantId }) : undefined;
+    if (tenantId && !tenant) exitWith(new Error(`Unknown tenant "${tenantId}".`));
+    await startStdioServer(() => createServer(tenant?.config ?? config));
   } else {
-    await startStreamableHTTPServer(createServer);
+    // Each stateless request and each new session builds a fresh server, so
+    // a reloaded config applies from then on
+    if (configPath) {
+      watchConfig(configPath, async () => {
+        const [nextConfig, nextTenants] = await Promise.all([
+          loadConfig(configPath),
+          loadTenants(configPath),
+        ]);
+        config = keepRestartOnly(nextConfig, config);
+        tenants = reloadTenants(tenants, nextTenants);
+      });
+    }
+
+    // With tenants configured, every request must match one of them
+    await startStreamableHTTPServer((req) => {
+      const id = req.params.tenant as string | undefined;
+      if (tenants.length === 0) return id ? undefined : config;
+      return findTenant(tenants, { id, host: req.hostname })?.config;
+    });
   }
 }
 
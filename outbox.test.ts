@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createConfig, type AppConfig } from "./config.js";
+import { openOutbox, Outbox } from "./outbox.js";
+import { MemoryTicketStore, type Ticket } from "./tickets.js";
+
+/** A promise with its resolve function, to hold a delivery until the test lets go. */
+function gate() {
+  let open!: () => void;
+  const opened = new Promise<void>((resolve) => (open = resolve));
+  return { open, opened };
+}
+
+async function setup(channels: AppConfig["channels"], outbox: Partial<AppConfig["outbox"]> = {}) {
+  const config = createConfig({
+    channels,
+    outbox: { ...createConfig().outbox, ...outbox },
+    acknowledgement: { ...createConfig().acknowledgement, enabled: false },
+    smtp: { ...createConfig().smtp, auth: { user: "", pass: "" } },
+  });
+  const store = new MemoryTicketStore();
+  const ticket: Ticket = await store.create({
+    name: "Ada",
+    issue: "Cannot log in",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    customFields: {},
+    attachments: [],
+  });
+  return { outbox: new Outbox(config, store), ticket };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Outbox", () => {
+  it("delivers every channel on submit", async () => {
+    const { outbox, ticket } = await setup([
+      { type: "custom", name: "one", deliver: async () => "Sent one." },
+      { type: "custom", name: "two", deliver: async () => "Sent two." },
+    ]);
+    const report = await outbox.submit(ticket);
+    expect(report.deliveries).toEqual([
+      { channel: "one", status: "delivered", message: "Sent one." },
+      { channel: "two", status: "delivered", message: "Sent two." },
+    ]);
+    expect((await outbox.summary()).counts).toEqual({ pending: 0, delivered: 2, logged: 0, dead: 0 });
+  });
+
+  it("reports an email preview as logged, not delivered, without SMTP credentials", async () => {
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const { outbox, ticket } = await setup([{ type: "smtp" }]);
+      const report = await outbox.submit(ticket);
+      expect(report.deliveries).toEqual([
+        { channel: "smtp", status: "logged", message: expect.stringContaining("preview logged") },
+      ]);
+      expect((await outbox.summary()).counts).toEqual({ pending: 0, delivered: 0, logged: 1, dead: 0 });
+    } finally {
+      errorLog.mockRestore();
+    }
+  });
+
+  it("backs off exponentially and gives up after the last attempt", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2026-10-19T10:00:00Z"));
+    let calls = 0;
+    const { outbox, ticket } = await setup(
+      [
+        {
+          type: "custom",
+          name: "flaky",
+          deliver: async () => {
+            calls++;
+            throw new Error("Connection refused");
+          },
+        },
+      ],
+      { maxAttempts: 4, retryDelayMs: 1_000, maxRetryDelayMs: 3_000 },
+    );
+
+    const [first] = (await outbox.submit(ticket)).deliveries;
+    expect(first).toEqual({
+      channel: "flaky",
+      status: "queued",
+      message: "Queued for retry: Connection refused",
+      nextAttemptAt: "2026-10-19T10:00:01.000Z",
+    });
+
+    // Nothing is due before the delay is up
+    await outbox.drain();
+    expect(calls).toBe(1);
+
+    for (const [delay, next] of [
+      [1_000, "2026-10-19T10:00:03.000Z"],
+      [2_000, "2026-10-19T10:00:06.000Z"],
+    ] as const) {
+      vi.advanceTimersByTime(delay);
+      await outbox.drain();
+      const [message] = (await outbox.summary()).messages;
+      expect(message.nextAttemptAt).toBe(next);
+    }
+
+    vi.advanceTimersByTime(3_000);
+    await outbox.drain();
+    const [dead] = (await outbox.summary()).messages;
+    expect(calls).toBe(4);
+    expect(dead).toMatchObject({ status: "dead", attempts: 4, lastError: "Connection refused" });
+    expect(dead.nextAttemptAt).toBeUndefined();
+
+    // Dead messages are left alone until retried by hand
+    vi.advanceTimersByTime(60_000);
+    await outbox.drain();
+    expect(calls).toBe(4);
+  });
+
+  it("retries dead messages from scratch", async () => {
+    let fail = true;
+    const { outbox, ticket } = await setup(
+      [
+        {
+          type: "custom",
+          name: "flaky",
+          deliver: async () => {
+            if (fail) throw new Error("Down");
+            return "Sent.";
+          },
+        },
+      ],
+      { maxAttempts: 1 },
+    );
+    expect((await outbox.submit(ticket)).deliveries[0].status).toBe("failed");
+
+    fail = false;
+    const [retried] = await outbox.retry();
+    expect(retried).toMatchObject({ status: "delivered", attempts: 1, result: "Sent." });
+  });
+
+  it("does not send a message again that was delivered while the worker held a stale copy", async () => {
+    const slow = gate();
+    const fast = gate();
+    const started = gate();
+    const sent = { slow: 0, fast: 0 };
+    const { outbox, ticket } = await setup(
+      [
+        {
+          type: "custom",
+          name: "slow",
+          deliver: async () => {
+            // Fails at once on submit, then hangs in the worker's retry
+            if (++sent.slow === 1) throw new Error("Timed out");
+            await slow.opened;
+            return "Sent slow.";
+          },
+        },
+        {
+          type: "custom",
+          name: "fast",
+          deliver: async () => {
+            sent.fast++;
+            started.open();
+            await fast.opened;
+            return "Sent fast.";
+          },
+        },
+      ],
+      { retryDelayMs: 0 },
+    );
+
+    const submitted = outbox.submit(ticket);
+    await started.opened;
+    while ((await outbox.summary()).messages.find((m) => m.channel === "slow")?.attempts !== 1) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    // The worker picks up both messages, then waits on the slow one while
+    // the first attempt of the fast one succeeds
+    const drained = outbox.drain();
+    fast.open();
+    await submitted;
+    slow.open();
+    await drained;
+
+    expect(sent).toEqual({ slow: 2, fast: 1 });
+    const { messages } = await outbox.summary();
+    expect(messages.map((m) => [m.channel, m.status, m.attempts])).toEqual([
+      ["fast", "delivered", 1],
+      ["slow", "delivered", 2],
+    ]);
+  });
+
+  it("keeps one outbox per ticket store, even with the same config", async () => {
+    const config = createConfig({
+      storage: { type: "memory", path: "data/outbox-test.json", idPrefix: "CS" },
+      channels: [{ type: "custom", name: "test", deliver: async (ticket) => `Got ${ticket.issue}.` }],
+      acknowledgement: { ...createConfig().acknowledgement, enabled: false },
+    });
+    const first = new MemoryTicketStore();
+    const second = new MemoryTicketStore();
+    const ticket = await first.create({
+      name: "Ada",
+      issue: "Cannot log in",
+      status: "open",
+      priority: "Medium",
+      category: "Technical Support",
+      customFields: {},
+      attachments: [],
+    });
+
+    const outbox = openOutbox(config, first);
+    expect(openOutbox(config, second)).not.toBe(outbox);
+    expect(openOutbox(config, first)).toBe(outbox);
+
+    // Opening the second store's outbox left the first one's tickets alone
+    expect((await outbox.submit(ticket)).deliveries).toEqual([
+      { channel: "test", status: "delivered", message: "Got Cannot log in." },
+    ]);
+    outbox.stop();
+    openOutbox(config, second).stop();
+  });
+});
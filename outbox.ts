@@ -0,0 +1,422 @@
+/**
+ * @file Durable outbox for ticket deliveries.
+ *
+ * A new ticket is accepted as soon as it is stored. Each delivery channel
+ * (and the optional acknowledgement email) becomes an outbox message that
+ * is attempted right away and, if that fails, retried with exponential
+ * backoff until it is delivered or runs out of attempts ("dead"). The
+ * outbox is persisted next to the tickets, so pending work survives a
+ * restart and is picked up again by the background worker. Comment emails
+ * and SLA escalations go through the same queue.
+ */
+import path from "node:path";
+import type { AppConfig } from "./config.js";
+import {
+  acknowledgementRecipient,
+  createChannel,
+  customerRecipient,
+  type DeliveryResult,
+  sendAcknowledgement,
+  sendComment,
+  sendEscalation,
+} from "./delivery.js";
+import { PersistentState } from "./persistence.js";
+import {
+  loadAttachments,
+  type SlaEscalation,
+  type Ticket,
+  type TicketComment,
+  type TicketStore,
+} from "./tickets.js";
+
+/** "logged" means SMTP is not configured: a preview was logged and nothing sent */
+export type OutboxStatus = "pending" | "delivered" | "logged" | "dead";
+
+export interface OutboxMessage {
+  id: string;
+  ticketId: string;
+  /**
+   * "channel" delivers to the support team, "acknowledgement" to the
+   * submitter, "comment" emails a public comment and "escalation" warns
+   * about an SLA breach
+   */
+  kind: "channel" | "acknowledgement" | "comment" | "escalation";
+  /** Name of the delivery channel, or the kind for emails */
+  channel: string;
+  /** Recipient of an acknowledgement or team reply */
+  to?: string;
+  /** The comment to email */
+  commentId?: number;
+  /** The SLA warning or breach an escalation is about */
+  escalation?: SlaEscalation;
+  status: OutboxStatus;
+  attempts: number;
+  /** When a pending message is next due */
+  nextAttemptAt?: string;
+  /** Status message from the successful delivery, or the logged preview */
+  result?: string;
+  /** Error from the most recent failed attempt */
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+/** How one channel fared for a freshly submitted ticket. */
+export interface DeliveryReport {
+  channel: string;
+  /**
+   * "queued" means the first attempt failed and a retry is scheduled;
+   * "logged" that SMTP is not configured and only a preview was logged
+   */
+  status: "delivered" | "logged" | "queued" | "failed";
+  message: string;
+  nextAttemptAt?: string;
+}
+
+/** How an email to the customer fared: the acknowledgement or a reply. */
+export interface AcknowledgementReport extends Omit<DeliveryReport, "status"> {
+  /** "skipped" when the submitter's address is missing or unusable */
+  status: DeliveryReport["status"] | "skipped";
+  to?: string;
+}
+
+export interface SubmissionReport {
+  deliveries: DeliveryReport[];
+  acknowledgement?: AcknowledgementReport;
+}
+
+export interface OutboxSummary {
+  counts: Record<OutboxStatus, number>;
+  messages: OutboxMessage[];
+}
+
+interface OutboxState {
+  nextId: number;
+  messages: OutboxMessage[];
+}
+
+export class Outbox {
+  private readonly state: PersistentState<OutboxState>;
+  /** Messages currently being attempted, so the worker never doubles up */
+  private readonly inFlight = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  private draining = false;
+
+  constructor(
+    private config: AppConfig,
+    private store: TicketStore,
+    filePath?: string,
+  ) {
+    this.state = new PersistentState(() => ({ nextId: 1, messages: [] }), filePath);
+  }
+
+  /** Use a newer config (and store) for all future attempts. */
+  configure(config: AppConfig, store: TicketStore): void {
+    this.config = config;
+    this.store = store;
+  }
+
+  /**
+   * Queue every delivery for a new ticket and make the first attempt
+   * straight away. Failed deliveries stay queued for retry.
+   */
+  async submit(ticket: Ticket): Promise<SubmissionReport> {
+    const recipient = acknowledgementRecipient(ticket, this.config);
+
+    const queued = await this.state.mutate((state) => {
+      const messages = this.config.channels.map((c) =>
+        enqueue(state, ticket, "channel", createChannel(c, this.config, this.store).name),
+      );
+      if (recipient && "skip" in recipient === false) {
+        messages.push(enqueue(state, ticket, "acknowledgement", "acknowledgement", { to: recipient.to }));
+      }
+      return messages;
+    });
+
+    const attempted = await Promise.all(queued.map((m) => this.attempt(m)));
+    const reports = attempted.map(toReport);
+
+    return {
+      deliveries: reports.filter((_, i) => attempted[i].kind === "channel"),
+      ...(recipient && {
+        acknowledgement:
+          "skip" in recipient
+            ? { channel: "acknowledgement", status: "skipped", to: recipient.to, message: recipient.skip }
+            : { ...reports[reports.length - 1], to: recipient.to },
+      }),
+    };
+  }
+
+  /**
+   * Queue the email for a public comment and make the first attempt
+   * straight away. Resolves to undefined for internal notes, which are
+   * never sent; team replies are skipped when the customer has no usable
+   * address.
+   */
+  async comment(ticket: Ticket, comment: TicketComment): Promise<AcknowledgementReport | undefined> {
+    if (comment.visibility !== "public") return undefined;
+
+    const recipient = comment.from === "team" ? customerRecipient(ticket, this.config) : undefined;
+    if (recipient && "skip" in recipient) {
+      return { channel: "comment", status: "skipped", to: recipient.to, message: recipient.skip };
+    }
+
+    const message = await this.state.mutate((state) =>
+      enqueue(state, ticket, "comment", "comment", {
+        ...(recipient && { to: recipient.to }),
+        commentId: comment.id,
+      }),
+    );
+    return { ...toReport(await this.attempt(message)), ...(recipient && { to: recipient.to }) };
+  }
+
+  /**
+   * Queue an SLA escalation email and make the first attempt straight away.
+   */
+  async escalate(ticket: Ticket, escalation: SlaEscalation): Promise<DeliveryReport> {
+    const message = await this.state.mutate((state) =>
+      enqueue(state, ticket, "escalation", "escalation", { escalation }),
+    );
+    return toReport(await this.attempt(message));
+  }
+
+  /** Counts per status and the matching messages, newest first. */
+  async summary(
+    filter: { status?: OutboxStatus; ticketId?: string } = {},
+    limit = 20,
+  ): Promise<OutboxSummary> {
+    return this.state.read((state) => {
+      const counts: Record<OutboxStatus, number> = { pending: 0, delivered: 0, logged: 0, dead: 0 };
+      for (const m of state.messages) counts[m.status]++;
+
+      const ticketId = filter.ticketId?.toUpperCase();
+      const messages = state.messages
+        .filter((m) => !filter.status || m.status === filter.status)
+        .filter((m) => !ticketId || m.ticketId.toUpperCase() === ticketId)
+        .slice(-limit)
+        .reverse();
+      return { counts, messages: structuredClone(messages) };
+    });
+  }
+
+  /**
+   * Re-drive undelivered messages: reset their attempts and try them now.
+   * Without a selector every dead message is retried.
+   */
+  async retry(selector: { id?: string; ticketId?: string } = {}): Promise<OutboxMessage[]> {
+    const ticketId = selector.ticketId?.toUpperCase();
+    const selected = await this.state.mutate((state) => {
+      const now = new Date().toISOString();
+      const matches = state.messages.filter((m) => {
+        if (m.status === "delivered") return false;
+        if (selector.id) return m.id === selector.id;
+        if (ticketId) return m.ticketId.toUpperCase() === ticketId;
+        return m.status === "dead";
+      });
+      for (const m of matches) {
+        m.status = "pending";
+        m.attempts = 0;
+        m.nextAttemptAt = now;
+        m.updatedAt = now;
+      }
+      return structuredClone(matches);
+    });
+
+    return Promise.all(selected.map((m) => this.attempt(m)));
+  }
+
+  /** Attempt every pending message that is due. */
+  async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      const now = Date.now();
+      const due = await this.state.read((state) =>
+        structuredClone(
+          state.messages.filter(
+            (m) =>
+              m.status === "pending" &&
+              Date.parse(m.nextAttemptAt ?? m.createdAt) <= now,
+          ),
+        ),
+      );
+      for (const message of due) await this.attempt(message);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /** Start the background worker that retries due messages. Idempotent. */
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.drain().catch((error) => console.error("Outbox error:", error));
+    };
+    this.timer = setInterval(tick, this.config.outbox.pollIntervalMs);
+    this.timer.unref();
+    // Pick up whatever was left pending before a restart
+    tick();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Try to deliver one message and record the outcome. Resolves with the
+   * updated message; never throws.
+   */
+  private async attempt(message: OutboxMessage): Promise<OutboxMessage> {
+    if (this.inFlight.has(message.id)) return message;
+    this.inFlight.add(message.id);
+
+    // The caller's copy may be stale: another attempt can have delivered the
+    // message (or used up its attempts) since it was read
+    const current = await this.state.read((state) =>
+      structuredClone(state.messages.find((m) => m.id === message.id)),
+    );
+    if (
+      !current ||
+      current.status !== "pending" ||
+      Date.parse(current.nextAttemptAt ?? current.createdAt) > Date.now()
+    ) {
+      this.inFlight.delete(message.id);
+      return current ?? message;
+    }
+
+    let outcome: { ok: true; result: DeliveryResult } | { ok: false; error: string };
+    try {
+      outcome = { ok: true, result: await this.deliver(current) };
+    } catch (error) {
+      outcome = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      return await this.state.mutate((state) => {
+        const stored = state.messages.find((m) => m.id === message.id) ?? current;
+        if (stored.status !== "pending") return structuredClone(stored);
+        const now = new Date();
+        stored.attempts++;
+        stored.updatedAt = now.toISOString();
+
+        if (outcome.ok) {
+          stored.status = outcome.result.logged ? "logged" : "delivered";
+          stored.result = outcome.result.message;
+          if (!outcome.result.logged) stored.deliveredAt = stored.updatedAt;
+          delete stored.nextAttemptAt;
+          delete stored.lastError;
+        } else if (stored.attempts >= this.config.outbox.maxAttempts) {
+          stored.status = "dead";
+          stored.lastError = outcome.error;
+          delete stored.nextAttemptAt;
+        } else {
+          stored.lastError = outcome.error;
+          stored.nextAttemptAt = new Date(
+            now.getTime() + retryDelay(stored.attempts, this.config),
+          ).toISOString();
+        }
+        return structuredClone(stored);
+      });
+    } finally {
+      this.inFlight.delete(message.id);
+    }
+  }
+
+  private async deliver(message: OutboxMessage): Promise<DeliveryResult> {
+    const ticket = await this.store.get(message.ticketId);
+    if (!ticket) throw new Error(`Ticket ${message.ticketId} no longer exists.`);
+
+    if (message.kind === "acknowledgement") {
+      return sendAcknowledgement(ticket, this.config, message.to ?? "");
+    }
+    if (message.kind === "comment") {
+      const comment = ticket.comments?.find((c) => c.id === message.commentId);
+      if (!comment) throw new Error(`Comment ${message.commentId} on ${ticket.id} no longer exists.`);
+      const files = await loadAttachments(
+        this.store,
+        ticket.attachments.filter((file) => file.commentId === comment.id),
+      );
+      return sendComment(ticket, this.config, comment, files, message.to);
+    }
+    if (message.kind === "escalation" && message.escalation) {
+      return sendEscalation(ticket, this.config, message.escalation);
+    }
+
+    const channel = this.config.channels
+      .map((c) => createChannel(c, this.config, this.store))
+      .find((c) => c.name === message.channel);
+    if (!channel) throw new Error(`Channel "${message.channel}" is no longer configured.`);
+    return channel.deliver(ticket);
+  }
+}
+
+/** Add a message, due straight away, to the outbox state. */
+function enqueue(
+  state: OutboxState,
+  ticket: Ticket,
+  kind: OutboxMessage["kind"],
+  channel: string,
+  extra: Pick<OutboxMessage, "to" | "commentId" | "escalation"> = {},
+): OutboxMessage {
+  const now = new Date().toISOString();
+  const message: OutboxMessage = {
+    id: `msg-${state.nextId++}`,
+    ticketId: ticket.id,
+    kind,
+    channel,
+    ...extra,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  state.messages.push(message);
+  return message;
+}
+
+/** Exponential backoff: the base delay doubles after every failed attempt. */
+function retryDelay(attempts: number, config: AppConfig): number {
+  const { retryDelayMs, maxRetryDelayMs } = config.outbox;
+  return Math.min(retryDelayMs * 2 ** (attempts - 1), maxRetryDelayMs);
+}
+
+function toReport(message: OutboxMessage): DeliveryReport {
+  if (message.status === "delivered") {
+    return { channel: message.channel, status: "delivered", message: message.result ?? "Delivered." };
+  }
+  if (message.status === "logged") {
+    return { channel: message.channel, status: "logged", message: message.result ?? "Preview logged." };
+  }
+  if (message.status === "dead") {
+    return { channel: message.channel, status: "failed", message: message.lastError ?? "Failed." };
+  }
+  return {
+    channel: message.channel,
+    status: "queued",
+    message: `Queued for retry: ${message.lastError}`,
+    nextAttemptAt: message.nextAttemptAt,
+  };
+}
+
+const openOutboxes = new WeakMap<TicketStore, Outbox>();
+
+/**
+ * Return the outbox for a ticket store, one per store, with its background
+ * worker running. The most recent config is used for all deliveries; the
+ * outbox file is the one configured when the outbox was first opened.
+ */
+export function openOutbox(config: AppConfig, store: TicketStore): Outbox {
+  let outbox = openOutboxes.get(store);
+  if (outbox) {
+    outbox.configure(config, store);
+  } else {
+    const filePath = config.storage.type === "file" ? path.resolve(config.outbox.path) : undefined;
+    outbox = new Outbox(config, store, filePath);
+    openOutboxes.set(store, outbox);
+  }
+  outbox.start();
+  return outbox;
+}
@@ -0,0 +1,67 @@
+/**
+ * @file Serialised state with optional JSON-file persistence.
+ *
+ * Shared by the ticket store and the delivery outbox. Every read and change
+ * runs one at a time, and with a file path each change is written to a
+ * temporary file that is renamed into place, so a crash never leaves a
+ * half-written document behind.
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export class PersistentState<S> {
+  private state: S | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param initial - Produces the state used when nothing is stored yet
+   * @param filePath - JSON file to persist to; omit to keep state in memory
+   */
+  constructor(
+    private readonly initial: () => S,
+    private readonly filePath?: string,
+  ) {}
+
+  /** Run a read-only task against the current state. */
+  read<T>(task: (state: S) => T): Promise<T> {
+    return this.enqueue(task, false);
+  }
+
+  /** Apply a change and persist it. */
+  mutate<T>(change: (state: S) => T): Promise<T> {
+    return this.enqueue(change, true);
+  }
+
+  private enqueue<T>(task: (state: S) => T, persist: boolean): Promise<T> {
+    const run = async () => {
+      this.state ??= await this.load();
+      const result = task(this.state);
+      if (persist) await this.save(this.state);
+      return result;
+    };
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async load(): Promise<S> {
+    if (!this.filePath) return this.initial();
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      return JSON.parse(raw) as S;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.initial();
+      }
+      throw error;
+    }
+  }
+
+  private async save(state: S): Promise<void> {
+    if (!this.filePath) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state, null, 2), "utf-8");
+    await fs.rename(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @file MCP prompts for working a ticket.
+ *
+ * Each prompt takes a ticket ID and embeds the ticket — as the caller may
+ * see it — as its JSON resource, so the model works from the stored details:
+ * - `triage_ticket`    — pick a category and priority from the config
+ * - `summarize_ticket` — summarise the conversation so far
+ * - `draft_reply`      — write a reply to the customer in the brand voice
+ */
+import type { GetPromptResult, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { TimelineEntry } from "./comments.js";
+import type { AppConfig } from "./config.js";
+import { ticketUri } from "./resources.js";
+import type { TicketView } from "./tickets.js";
+
+/** Used when `brand.voice` is not set. */
+const DEFAULT_VOICE = "Warm, clear and professional. Short sentences, no jargon, no blame.";
+
+function instruction(lines: string[]): PromptMessage {
+  return { role: "user", content: { type: "text", text: lines.join("\n") } };
+}
+
+function embedded(uri: string, value: unknown): PromptMessage {
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: { uri, mimeType: "application/json", text: JSON.stringify(value, null, 2) },
+    },
+  };
+}
+
+/** English name of a locale's language, e.g. "German" for de-AT. */
+function languageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(locale.split("-")[0]) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/** Ask for a category and priority, chosen from the configured ones. */
+export function triagePrompt(config: AppConfig, ticket: TicketView): GetPromptResult {
+  return {
+    description: `Triage ticket ${ticket.id}`,
+    messages: [
+      instruction([
+        `Triage support ticket ${ticket.id}, embedded below.`,
+        "",
+        `Categories: ${config.categories.join(", ")}.`,
+        `Priorities, as configured: ${config.priorities.join(", ")}.`,
+        "",
+        "Pick the one category that fits the issue best and the priority it deserves. Weigh how many " +
+          "people are affected, whether they can work around it and any deadline mentioned; do not " +
+          "raise the priority only because the customer sounds upset.",
+        `It is now filed as ${ticket.category} / ${ticket.priority}; keep either value when it fits.`,
+        "",
+        'Answer with JSON only: {"category": "…", "priority": "…", "reason": "one sentence"}. Use ' +
+          "the values exactly as listed. Do not change the ticket until the user agrees.",
+      ]),
+      embedded(ticketUri(ticket.id), ticket),
+    ],
+  };
+}
+
+/** Ask for a handover summary of the ticket's conversation. */
+export function summaryPrompt(ticket: TicketView, timeline: TimelineEntry[]): GetPromptResult {
+  return {
+    description: `Summarise ticket ${ticket.id}`,
+    messages: [
+      instruction([
+        `Summarise the conversation on support ticket ${ticket.id} for an agent picking it up.`,
+        "The ticket and its timeline, oldest first, are embedded below.",
+        "",
+        "Cover the customer's problem, what the team and the customer have said or tried so far, " +
+          "anything promised, and what is still open. End with the next step. Keep it to a short " +
+          "paragraph and a list of open items, and do not invent details the timeline lacks.",
+      ]),
+      embedded(ticketUri(ticket.id), ticket),
+      embedded(ticketUri(ticket.id, "timeline"), timeline),
+    ],
+  };
+}
+
+/**
+ * Ask for a reply to the customer in the brand's voice and the customer's
+ * language. `guidance` says what the reply should tell them, if anything.
+ */
+export function replyPrompt(config: AppConfig, ticket: TicketView, guidance?: string): GetPromptResult {
+  const { brand } = config;
+  const language = languageName(ticket.locale ?? config.i18n.defaultLocale);
+  return {
+    description: `Draft a reply on ticket ${ticket.id}`,
+    messages: [
+      instruction([
+        `Draft a reply from the ${brand.name} team to ${ticket.name} on ticket ${ticket.id}, ` +
+          "embedded below.",
+        "",
+        `Voice: ${brand.voice || DEFAULT_VOICE}`,
+        ...(brand.tagline ? [`Tagline, for the tone: "${brand.tagline}"`] : []),
+        `Language: ${language}, the customer's language.`,
+        ...(guidance?.trim() ? [`What the reply should say: ${guidance.trim()}`] : []),
+        "",
+        "Answer the customer's latest message, or the original issue if nobody has replied yet. " +
+          "Promise nothing the ticket does not back up, and leave internal notes out of the reply.",
+        "Return only the reply text, without a subject line. An agent will review it before it is " +
+          "sent with add_ticket_comment.",
+      ]),
+      embedded(ticketUri(ticket.id), ticket),
+    ],
+  };
+}
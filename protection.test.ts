@@ -0,0 +1,162 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { createConfig, type AppConfig } from "./config.js";
+import {
+  checkClientRateLimit,
+  checkEmailRateLimit,
+  checkSpam,
+  findDuplicate,
+  scoreSpam,
+  textSimilarity,
+} from "./protection.js";
+import { createServer } from "./server.js";
+import { MemoryTicketStore, type Ticket } from "./tickets.js";
+
+let stores = 0;
+
+/** A config with limiter counters of its own: they are kept per store path. */
+function freshConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return createConfig({
+    storage: { type: "memory", path: `data/protection-test-${++stores}.json`, idPrefix: "CS" },
+    ...overrides,
+  });
+}
+
+function ticket(overrides: Partial<Ticket>): Ticket {
+  return {
+    id: "CS-000001",
+    name: "Ada",
+    issue: "The export button does nothing when I click it",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    customFields: { email: "ada@example.com" },
+    attachments: [],
+    createdAt: "2026-10-19T10:00:00.000Z",
+    updatedAt: "2026-10-19T10:00:00.000Z",
+    history: [],
+    ...overrides,
+  };
+}
+
+describe("rate limits", () => {
+  it("turns a client away after its allowance, per store", () => {
+    const config = freshConfig({
+      protection: { ...createConfig().protection, perClient: { max: 2, windowMs: 60_000 } },
+    });
+    expect(checkClientRateLimit(config, "203.0.113.7")).toBeUndefined();
+    expect(checkClientRateLimit(config, "203.0.113.7")).toBeUndefined();
+    expect(checkClientRateLimit(config, "203.0.113.7")).toMatchObject({
+      code: "rate_limited",
+      message: "Too many tickets from this client. Please try again in 1 minute.",
+      retryAfterSeconds: 60,
+    });
+    expect(checkClientRateLimit(config, "198.51.100.2")).toBeUndefined();
+    expect(checkClientRateLimit(freshConfig(), "203.0.113.7")).toBeUndefined();
+  });
+
+  it("counts email addresses case-insensitively, and not at all when turned off", () => {
+    const config = freshConfig({
+      protection: { ...createConfig().protection, perEmail: { max: 1, windowMs: 60_000 } },
+    });
+    expect(checkEmailRateLimit(config, "Ada@Example.com")).toBeUndefined();
+    expect(checkEmailRateLimit(config, "ada@example.com")?.code).toBe("rate_limited");
+
+    const off = freshConfig({ protection: { ...createConfig().protection, perEmail: { max: 0, windowMs: 60_000 } } });
+    for (let i = 0; i < 10; i++) expect(checkEmailRateLimit(off, "ada@example.com")).toBeUndefined();
+  });
+});
+
+describe("spam", () => {
+  const config = createConfig();
+
+  it("scores the honeypot, blocked words, links and shouting", () => {
+    expect(scoreSpam(config, { name: "Ada", issue: "Cannot log in" })).toEqual({ score: 0, reasons: [] });
+    expect(scoreSpam(config, { name: "Ada", issue: "Cannot log in", honeypot: "http://spam.example" }).score).toBe(5);
+    expect(
+      scoreSpam(config, {
+        name: "Winner http://a.example http://b.example http://c.example http://d.example",
+        issue: "CASINO BONUS FOR EVERYONE TODAY ONLY",
+      }).reasons,
+    ).toEqual(['contains "casino"', "4 links", "mostly capital letters"]);
+  });
+
+  it("rejects at the threshold only", () => {
+    expect(checkSpam(config, { name: "Ada", issue: "I won the lottery winner draw?" })).toBeUndefined();
+    expect(checkSpam(config, { name: "Ada", issue: "Hi", honeypot: "x" })?.code).toBe("spam");
+  });
+});
+
+describe("findDuplicate", () => {
+  const config = createConfig();
+  const now = Date.parse("2026-10-19T10:10:00.000Z");
+  const earlier = ticket({});
+
+  it("finds a near-identical recent ticket from the same email address", () => {
+    expect(textSimilarity("The export button does nothing", "the EXPORT button does nothing!")).toBe(1);
+    const candidate = { name: "Ada L.", issue: "The export button does nothing when I click on it", email: "ADA@example.com" };
+    expect(findDuplicate(config, [earlier], candidate, now)).toBe(earlier);
+  });
+
+  it("ignores other submitters, other issues and old tickets", () => {
+    const issue = earlier.issue;
+    expect(findDuplicate(config, [earlier], { name: "Ada", issue, email: "bob@example.com" }, now)).toBeUndefined();
+    expect(findDuplicate(config, [earlier], { name: "Ada", issue: "Please refund my order", email: "ada@example.com" }, now)).toBeUndefined();
+    expect(
+      findDuplicate(config, [earlier], { name: "Ada", issue, email: "ada@example.com" }, now + 60 * 60_000),
+    ).toBeUndefined();
+  });
+
+  it("matches by name and API key without an email address", () => {
+    const keyed = ticket({ customFields: {}, submittedBy: "web-form" });
+    expect(findDuplicate(config, [keyed], { name: "ada", issue: keyed.issue, submittedBy: "web-form" }, now)).toBe(keyed);
+    expect(findDuplicate(config, [keyed], { name: "ada", issue: keyed.issue, submittedBy: "other" }, now)).toBeUndefined();
+  });
+});
+
+describe("the honeypot", () => {
+  async function connect() {
+    const store = new MemoryTicketStore();
+    const server = createServer(
+      {
+        ...freshConfig(),
+        channels: [{ type: "custom", name: "test", deliver: async () => "Received." }],
+      },
+      { store },
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return { client, store };
+  }
+
+  it("is not offered to the model as a tool argument", async () => {
+    const { client, store } = await connect();
+    const { tools } = await client.listTools();
+    const tool = tools.find((t) => t.name === "customer_support");
+    expect(Object.keys(tool?.inputSchema.properties ?? {})).not.toContain("website");
+
+    // A model that sends it anyway with a real site is not taken for a bot
+    const result = (await client.callTool({
+      name: "customer_support",
+      arguments: { name: "Ada", issue: "Cannot log in", website: "https://ada.example" },
+    })) as CallToolResult;
+    expect(result.isError).toBeFalsy();
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("rejects a submission whose form filled it in", async () => {
+    const { client, store } = await connect();
+    const result = (await client.callTool({
+      name: "customer_support",
+      arguments: { name: "Ada", issue: "Cannot log in" },
+      _meta: { honeypot: "https://spam.example" },
+    })) as CallToolResult;
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('"code":"spam"') });
+    expect(await store.list()).toEqual([]);
+  });
+});
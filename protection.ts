@@ -0,0 +1,195 @@
+/**
+ * @file Flood protection for new tickets.
+ *
+ * Before a ticket is stored, `customer_support` checks per-client and
+ * per-email rate limits, scores the submission for spam and looks for a
+ * near-identical ticket from the same submitter. Rejections are returned as
+ * {@link Rejection}s, which the tool passes back as structured errors; a
+ * duplicate returns the earlier ticket instead of creating (and emailing)
+ * another one.
+ */
+import path from "node:path";
+import type { AppConfig, RateLimit } from "./config.js";
+import type { Ticket } from "./tickets.js";
+
+export interface Rejection {
+  /** Machine-readable reason, for clients that want to react to it */
+  code: "rate_limited" | "spam";
+  message: string;
+  /** When a rate limit applies: seconds until another attempt can succeed */
+  retryAfterSeconds?: number;
+}
+
+/** What the spam heuristics look at. */
+export interface SubmissionText {
+  name: string;
+  issue: string;
+  /** Value of the honeypot field, if the client sent one */
+  honeypot?: string;
+}
+
+export interface SpamScore {
+  score: number;
+  /** Why points were given, for the server log */
+  reasons: string[];
+}
+
+/** Timestamps of recent submissions per limiter key, oldest first. */
+const recent = new Map<string, number[]>();
+
+/** Past this many keys, expired ones are swept on the next hit. */
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Count one submission against a rate limit. Resolves to undefined when it
+ * is allowed, or to the milliseconds until the oldest one in the window
+ * expires. Counters live in memory and start afresh after a restart.
+ */
+function takeRateLimit(key: string, limit: RateLimit, now = Date.now()): number | undefined {
+  if (limit.max <= 0) return undefined;
+
+  if (recent.size > SWEEP_THRESHOLD) {
+    for (const [k, times] of recent) {
+      if (times[times.length - 1] <= now - limit.windowMs) recent.delete(k);
+    }
+  }
+
+  const times = (recent.get(key) ?? []).filter((t) => t > now - limit.windowMs);
+  if (times.length >= limit.max) {
+    recent.set(key, times);
+    return times[0] + limit.windowMs - now;
+  }
+  times.push(now);
+  recent.set(key, times);
+  return undefined;
+}
+
+/** Counters are kept per ticket store, so tenants never share them. */
+function limiterScope(config: AppConfig): string {
+  return path.resolve(config.storage.path);
+}
+
+function rateLimited(what: string, retryAfterMs: number): Rejection {
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return {
+    code: "rate_limited",
+    message:
+      `Too many tickets from ${what}. Please try again in ` +
+      `${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    retryAfterSeconds,
+  };
+}
+
+/** Count a submission against the per-client limit. */
+export function checkClientRateLimit(config: AppConfig, client: string): Rejection | undefined {
+  const wait = takeRateLimit(`${limiterScope(config)}:client:${client}`, config.protection.perClient);
+  return wait === undefined ? undefined : rateLimited("this client", wait);
+}
+
+/**
+ * Count a new ticket against the per-email limit. Checked last, so spam
+ * and duplicates do not use up the submitter's allowance.
+ */
+export function checkEmailRateLimit(config: AppConfig, email: string): Rejection | undefined {
+  const key = `${limiterScope(config)}:email:${email.toLowerCase()}`;
+  const wait = takeRateLimit(key, config.protection.perEmail);
+  return wait === undefined ? undefined : rateLimited(email, wait);
+}
+
+/**
+ * Score a submission with simple heuristics: the honeypot, blocked words,
+ * link stuffing, shouting and long runs of one character.
+ */
+export function scoreSpam(config: AppConfig, input: SubmissionText): SpamScore {
+  const { threshold, blockedWords } = config.protection.spam;
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (input.honeypot?.trim()) add(threshold || 10, "honeypot field filled in");
+
+  const text = `${input.name}\n${input.issue}`;
+  const lower = text.toLowerCase();
+  for (const word of blockedWords) {
+    if (lower.includes(word.toLowerCase())) add(3, `contains "${word}"`);
+  }
+
+  const links = text.match(/https?:\/\/\S+/gi)?.length ?? 0;
+  if (links > 2) add(links - 2, `${links} links`);
+
+  const letters = input.issue.replace(/[^a-z]/gi, "");
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7) {
+    add(2, "mostly capital letters");
+  }
+  if (/(.)\1{9,}/.test(input.issue)) add(1, "long run of one character");
+
+  return { score, reasons };
+}
+
+/** Reject a submission scoring at or above the configured threshold. */
+export function checkSpam(config: AppConfig, input: SubmissionText): Rejection | undefined {
+  const { threshold } = config.protection.spam;
+  if (threshold <= 0) return undefined;
+
+  const { score, reasons } = scoreSpam(config, input);
+  if (score < threshold) return undefined;
+
+  console.error(`Rejected ticket from "${input.name}" as spam (score ${score}: ${reasons.join(", ")})`);
+  return {
+    code: "spam",
+    message:
+      "Your request looks like spam and was not submitted. If this is a " +
+      "mistake, please rephrase it or contact us directly.",
+  };
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Share of distinct words two texts have in common (Jaccard index). */
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Find a recent ticket from the same submitter with a near-identical issue.
+ * Submitters are matched by email address when one is given, otherwise by
+ * name and the API key they submitted with.
+ */
+export function findDuplicate(
+  config: AppConfig,
+  tickets: Ticket[],
+  candidate: { name: string; issue: string; email?: string; submittedBy?: string },
+  now = Date.now(),
+): Ticket | undefined {
+  const { windowMs, similarity } = config.protection.duplicates;
+  if (windowMs <= 0) return undefined;
+
+  const emailField = config.acknowledgement.emailField;
+  const email = candidate.email?.toLowerCase();
+  const sameSubmitter = (t: Ticket) =>
+    email
+      ? t.customFields[emailField]?.toLowerCase() === email
+      : t.name.toLowerCase() === candidate.name.toLowerCase() &&
+        t.submittedBy === candidate.submittedBy;
+
+  // Newest first, so the most recent match wins
+  for (let i = tickets.length - 1; i >= 0; i--) {
+    const ticket = tickets[i];
+    if (Date.parse(ticket.createdAt) < now - windowMs) break;
+    if (sameSubmitter(ticket) && textSimilarity(ticket.issue, candidate.issue) >= similarity) {
+      return ticket;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,77 @@
+/**
+ * @file Redaction of sensitive data before it is stored, delivered or logged.
+ *
+ * `customer_support`, `add_ticket_comment` and inbound email run their text
+ * through {@link redactFields} first, so card numbers, passwords and the
+ * like never reach the ticket store, the emails, the console preview or the
+ * tool result echoed back to the model. Matches are masked or replaced by a
+ * keyed hash, as their rule says; a "reject" rule turns the text away
+ * instead, naming what it found but never repeating it.
+ */
+import { createHmac } from "node:crypto";
+import type { AppConfig, RedactionRule } from "./config.js";
+import { findSensitive } from "./sensitive.js";
+import type { TicketRedaction } from "./tickets.js";
+
+export interface RedactionResult {
+  /** The texts with every match masked or hashed */
+  values: Record<string, string>;
+  /** What was replaced, per field and rule */
+  redactions: TicketRedaction[];
+  /** Names of the "reject" rules that matched; the texts must not be used */
+  rejected: string[];
+}
+
+/** Blank out a value, keeping a card number's last four digits as receipts do. */
+function mask(rule: RedactionRule, value: string): string {
+  if (rule.detect !== "creditCard") return "[redacted]";
+  let keep = 4;
+  return [...value]
+    .reverse()
+    .map((ch) => (/\d/.test(ch) ? (keep-- > 0 ? ch : "•") : ch))
+    .reverse()
+    .join("");
+}
+
+function hash(config: AppConfig, value: string): string {
+  const digest = createHmac("sha256", config.redaction.hashKey).update(value).digest("hex");
+  return `[hash:${digest.slice(0, 12)}]`;
+}
+
+/**
+ * Redact each of the given texts, keyed by field. With redaction off the
+ * texts come back unchanged.
+ */
+export function redactFields(config: AppConfig, fields: Record<string, string>): RedactionResult {
+  const result: RedactionResult = { values: { ...fields }, redactions: [], rejected: [] };
+  if (!config.redaction.enabled) return result;
+
+  for (const [field, text] of Object.entries(fields)) {
+    const findings = findSensitive(config.redaction.rules, text);
+    let redacted = "";
+    let from = 0;
+    for (const { rule, start, end } of findings) {
+      if (rule.action === "reject") {
+        if (!result.rejected.includes(rule.name)) result.rejected.push(rule.name);
+        continue;
+      }
+      const value = text.slice(start, end);
+      redacted += text.slice(from, start) + (rule.action === "hash" ? hash(config, value) : mask(rule, value));
+      from = end;
+
+      const entry = result.redactions.find((r) => r.field === field && r.rule === rule.name);
+      if (entry) entry.count++;
+      else result.redactions.push({ field, rule: rule.name, action: rule.action, count: 1 });
+    }
+    result.values[field] = redacted + text.slice(from);
+  }
+  return result;
+}
+
+/** The message for text refused by "reject" rules. */
+export function rejectionMessage(rejected: string[]): string {
+  return (
+    `This looks like it contains sensitive data (${rejected.join(", ")}), so it was not sent. ` +
+    "Please remove it and try again."
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Tickets as MCP resources, with change subscriptions.
+ *
+ * Every ticket is a JSON resource at `ticket://CS-000123`, with its
+ * timeline at `ticket://CS-000123/timeline`, so a client can attach it to
+ * context like a file. A client that subscribes to either URI is sent
+ * `notifications/resources/updated` whenever the ticket's status or another
+ * tracked field changes or its conversation grows, and every client hears
+ * `notifications/resources/list_changed` when a ticket it may read is opened.
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { Ticket, TicketStore } from "./tickets.js";
+
+/** URI of a ticket resource: `ticket://CS-000123`, or `ticket://CS-000123/timeline`. */
+export function ticketUri(id: string, part?: string): string {
+  return `ticket://${id}${part ? `/${part}` : ""}`;
+}
+
+/**
+ * Whether a change is one subscribers hear about: a new entry in the
+ * ticket's history (status, priority, category or assignee) or conversation.
+ */
+export function isNotableChange(ticket: Ticket, previous: Ticket): boolean {
+  return (
+    ticket.history.length !== previous.history.length ||
+    (ticket.comments?.length ?? 0) !== (previous.comments?.length ?? 0)
+  );
+}
+
+/**
+ * Let the server's client subscribe to ticket resources. Once the client
+ * has initialised, the store is watched until the server closes; `canRead`
+ * keeps tickets the caller may not see out of the notifications.
+ */
+export function enableTicketSubscriptions(
+  server: McpServer,
+  store: TicketStore,
+  canRead: (ticket: Ticket) => boolean,
+): void {
+  // Keyed case-insensitively, as ticket IDs are; the client's spelling is kept
+  const subscribed = new Map<string, string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    subscribed.set(params.uri.toLowerCase(), params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscribed.delete(params.uri.toLowerCase());
+    return {};
+  });
+
+  server.server.oninitialized = () => {
+    const stop = store.watch((ticket, previous) => {
+      if (!server.isConnected() || !canRead(ticket)) return;
+      if (!previous) {
+        server.sendResourceListChanged();
+        return;
+      }
+      if (!isNotableChange(ticket, previous)) return;
+
+      for (const uri of [ticketUri(ticket.id), ticketUri(ticket.id, "timeline")]) {
+        const wanted = subscribed.get(uri.toLowerCase());
+        if (wanted) {
+          server.server.sendResourceUpdated({ uri: wanted }).catch((error) => {
+            console.error("Resource update failed:", error);
+          });
+        }
+      }
+    });
+
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      stop();
+      onclose?.();
+    };
+  };
+}
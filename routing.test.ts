@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { createConfig, type RoutingRule } from "./config.js";
+import { routeTicket, type RoutingInput } from "./routing.js";
+
+const rules: RoutingRule[] = [
+  {
+    name: "Enterprise billing",
+    match: { categories: ["Billing"], fields: { plan: ["Enterprise"] } },
+    to: ["billing@example.com"],
+    cc: ["accounts@example.com"],
+    assignee: "sam",
+    tags: ["enterprise"],
+  },
+  {
+    name: "Outage",
+    match: { keywords: ["outage", "down"] },
+    to: ["oncall@example.com"],
+    cc: ["Billing@example.com"],
+    priority: "Urgent",
+    tags: ["Enterprise", "outage"],
+  },
+  {
+    name: "Urgent",
+    match: { priorities: ["Urgent"] },
+    cc: ["lead@example.com"],
+  },
+];
+
+const input: RoutingInput = {
+  issue: "Our invoices page is DOWN",
+  category: "Billing",
+  customFields: { plan: "enterprise" },
+};
+
+describe("routeTicket", () => {
+  it("applies only the first matching rule in first mode", () => {
+    const decision = routeTicket(createConfig({ routing: { mode: "first", rules } }), input);
+    expect(decision).toEqual({
+      routing: { rules: ["Enterprise billing"], to: ["billing@example.com"], cc: ["accounts@example.com"] },
+      assignee: "sam",
+      priority: undefined,
+      tags: ["enterprise"],
+    });
+  });
+
+  it("combines every matching rule in all mode", () => {
+    const decision = routeTicket(createConfig({ routing: { mode: "all", rules } }), input);
+    expect(decision.routing).toEqual({
+      rules: ["Enterprise billing", "Outage"],
+      to: ["billing@example.com", "oncall@example.com"],
+      // Recipients of the email itself are not copied as well
+      cc: ["accounts@example.com"],
+    });
+    expect(decision.assignee).toBe("sam");
+    expect(decision.priority).toBe("Urgent");
+    expect(decision.tags).toEqual(["enterprise", "outage"]);
+  });
+
+  it("matches priorities against the default when none was picked", () => {
+    const config = createConfig({ defaultPriority: "Urgent", routing: { mode: "all", rules: [rules[2]] } });
+    expect(routeTicket(config, { ...input, category: "General Inquiry" }).routing?.rules).toEqual(["Urgent"]);
+    expect(routeTicket(config, { ...input, priority: "Low" }).routing).toBeUndefined();
+  });
+
+  it("returns no routing when nothing matches", () => {
+    const config = createConfig({ routing: { mode: "all", rules } });
+    expect(routeTicket(config, { issue: "Question", category: "General Inquiry", customFields: {} })).toEqual({ tags: [] });
+  });
+});
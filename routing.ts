@@ -0,0 +1,95 @@
+/**
+ * @file Rule-based routing of new tickets.
+ *
+ * `AppConfig.routing.rules` decide, per ticket, who the ticket email goes
+ * to and who is copied, who the ticket is assigned to, which priority it
+ * gets when the submitter picks none, and which tags it carries. Rules
+ * match on category, priority, custom field values and issue keywords.
+ * The rules applied are recorded on the ticket.
+ */
+import type { AppConfig, RoutingMatch, RoutingRule } from "./config.js";
+import type { TicketRouting } from "./tickets.js";
+
+/** What a new ticket looks like to the rules. */
+export interface RoutingInput {
+  issue: string;
+  /** The priority the submitter picked, if any */
+  priority?: string;
+  category: string;
+  customFields: Record<string, string>;
+}
+
+export interface RoutingDecision {
+  /** Undefined when no rule matched */
+  routing?: TicketRouting;
+  assignee?: string;
+  priority?: string;
+  tags: string[];
+}
+
+function includesIgnoringCase(values: string[], value: string | undefined): boolean {
+  const wanted = value?.trim().toLowerCase();
+  return wanted !== undefined && values.some((v) => v.toLowerCase() === wanted);
+}
+
+function matches(match: RoutingMatch, input: RoutingInput, priority: string): boolean {
+  if (match.categories && !match.categories.includes(input.category)) return false;
+  if (match.priorities && !match.priorities.includes(priority)) return false;
+
+  for (const [key, values] of Object.entries(match.fields ?? {})) {
+    if (!includesIgnoringCase(values, input.customFields[key])) return false;
+  }
+
+  if (match.keywords) {
+    const issue = input.issue.toLowerCase();
+    if (!match.keywords.some((k) => issue.includes(k.toLowerCase()))) return false;
+  }
+  return true;
+}
+
+function addUnique(target: string[], values: string[] = []): void {
+  for (const value of values) {
+    if (!includesIgnoringCase(target, value)) target.push(value);
+  }
+}
+
+/**
+ * Run a new ticket through the routing rules. Rules match against the
+ * submitted priority, or the default one when none was picked. In "first"
+ * mode only the first matching rule applies; in "all" mode recipients and
+ * tags of every match are combined and the first assignee and priority set
+ * win.
+ */
+export function routeTicket(config: AppConfig, input: RoutingInput): RoutingDecision {
+  const { mode, rules } = config.routing;
+  const priority = input.priority ?? config.defaultPriority;
+
+  const matched: RoutingRule[] = [];
+  for (const rule of rules) {
+    if (!matches(rule.match, input, priority)) continue;
+    matched.push(rule);
+    if (mode === "first") break;
+  }
+  if (matched.length === 0) return { tags: [] };
+
+  const to: string[] = [];
+  const cc: string[] = [];
+  const tags: string[] = [];
+  for (const rule of matched) {
+    addUnique(to, rule.to);
+    addUnique(cc, rule.cc);
+    addUnique(tags, rule.tags);
+  }
+
+  return {
+    routing: {
+      rules: matched.map((r) => r.name),
+      to,
+      // Nobody needs a copy of an email they already receive
+      cc: cc.filter((address) => !includesIgnoringCase(to, address)),
+    },
+    assignee: matched.find((r) => r.assignee)?.assignee,
+    priority: matched.find((r) => r.priority)?.priority,
+    tags,
+  };
+}
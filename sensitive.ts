@@ -0,0 +1,105 @@
+/**
+ * @file Detecting sensitive data in ticket text.
+ *
+ * Shared by the server, which redacts what the rules find (see
+ * `redaction.ts`), and the React UI, which warns while the user types.
+ * The built-in detectors look for:
+ * - `creditCard` — 13 to 19 digits, optionally grouped, that pass the Luhn check
+ * - `secret`     — values after "password:", "api_key=" and the like, bearer
+ *                  tokens, private keys, JWTs and well-known API key formats
+ * - `nationalId` — US Social Security, UK National Insurance and Canadian
+ *                  Social Insurance numbers
+ */
+import type { RedactionRule } from "./config.js";
+
+/** Where a rule matched, as offsets into the text. */
+export interface Finding {
+  rule: RedactionRule;
+  start: number;
+  end: number;
+}
+
+/** Whether a string of digits passes the Luhn checksum. */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const CARD_NUMBER = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+
+// Patterns with a `value` group only take the group: "password: hunter2"
+// keeps "password: "
+const SECRETS = [
+  /\b(?:password|passwd|pwd|passcode|pin|secret|(?:api|access|auth)[_ -]?(?:key|token))\b\s*(?:is\s*)?[:=]\s*(?<value>\S+)/dgi,
+  /\bbearer\s+(?<value>[A-Za-z0-9._~+/-]{16,}=*)/dgi,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // JSON Web Tokens
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  // Stripe, OpenAI-style, GitHub, Slack, AWS and Google keys
+  /\b[spr]k_(?:live|test)_[A-Za-z0-9]{16,}/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+];
+
+const NATIONAL_IDS = [
+  // US SSN: no 000, 666 or 9xx area, no 00 group, no 0000 serial
+  /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+  // UK National Insurance number
+  /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+];
+
+// Canadian SIN, grouped so plain nine-digit numbers are left alone
+const SIN = /\b\d{3}[ -]\d{3}[ -]\d{3}\b/g;
+
+/** Offsets of a match, or of its `value` group or first group when it has one. */
+function span(match: RegExpMatchArray): [number, number] {
+  const group = match.indices?.groups?.value ?? match.indices?.[1];
+  if (group) return group;
+  const start = match.index ?? 0;
+  return [start, start + match[0].length];
+}
+
+function matchesOf(rule: RedactionRule, text: string): [number, number][] {
+  switch (rule.detect) {
+    case "creditCard":
+      return [...text.matchAll(CARD_NUMBER)]
+        .filter((m) => passesLuhn(m[0].replace(/\D/g, "")))
+        .map(span);
+    case "secret":
+      return SECRETS.flatMap((pattern) => [...text.matchAll(pattern)].map(span));
+    case "nationalId":
+      return [
+        ...NATIONAL_IDS.flatMap((pattern) => [...text.matchAll(pattern)].map(span)),
+        ...[...text.matchAll(SIN)].filter((m) => passesLuhn(m[0].replace(/\D/g, ""))).map(span),
+      ];
+    case "pattern":
+      return rule.pattern ? [...text.matchAll(new RegExp(rule.pattern, "dgiu"))].map(span) : [];
+  }
+}
+
+/**
+ * Find what the rules detect in a text, in order of position. Where
+ * matches overlap, the rule listed first wins; empty matches are ignored.
+ */
+export function findSensitive(rules: RedactionRule[], text: string): Finding[] {
+  const findings: Finding[] = [];
+  for (const rule of rules) {
+    for (const [start, end] of matchesOf(rule, text)) {
+      if (end <= start) continue;
+      if (findings.some((f) => start < f.end && f.start < end)) continue;
+      findings.push({ rule, start, end });
+    }
+  }
+  return findings.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,97 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import { defaultConfig, type AppConfig } from "./config.js";
+import { createServer, MemoryTicketStore } from "./server.js";
+
+async function connect(overrides: Partial<AppConfig> = {}) {
+  const store = new MemoryTicketStore("TEST");
+  const server = createServer(
+    {
+      storage: { type: "memory", path: "data/server-test.json", idPrefix: "TEST" },
+      channels: [{ type: "custom", name: "test", deliver: async () => "Received." }],
+      acknowledgement: { ...defaultConfig.acknowledgement, enabled: false },
+      ...overrides,
+    },
+    { store },
+  );
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return { client, store };
+}
+
+async function submit(client: Client, args: Record<string, unknown>) {
+  const result = (await client.callTool({ name: "customer_support", arguments: args })) as CallToolResult;
+  const [content] = result.content;
+  return { isError: result.isError ?? false, text: content.type === "text" ? content.text : "" };
+}
+
+describe("customer_support", () => {
+  it("treats an optional field left empty as not given", async () => {
+    const { client, store } = await connect();
+    const result = await submit(client, { name: "Ada", issue: "The export button does nothing", email: "" });
+    expect(result.isError).toBe(false);
+    expect(JSON.parse(result.text)).toMatchObject({ status: "ok" });
+
+    const [ticket] = await store.list();
+    expect(ticket.customFields.email).toBeUndefined();
+  });
+
+  it("stores attachment contents apart from the ticket", async () => {
+    const { client, store } = await connect();
+    const data = Buffer.from("Error: export failed").toString("base64");
+    const result = await submit(client, {
+      name: "Ada",
+      issue: "The export button does nothing",
+      attachments: [{ filename: "error.log", mimeType: "text/plain", data }],
+    });
+    expect(result.isError).toBe(false);
+
+    const [ticket] = await store.list();
+    expect(ticket.attachments).toEqual([
+      { field: "attachments", filename: "error.log", mimeType: "text/plain", size: 20, blob: expect.any(String) },
+    ]);
+    expect(await store.readAttachment(ticket.attachments[0].blob)).toBe(data);
+  });
+
+  it("still checks an optional field that is filled in", async () => {
+    const { client, store } = await connect();
+    const result = await submit(client, { name: "Ada", issue: "The export button does nothing", email: "ada" });
+    expect(result.isError).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe("routing a form submission", () => {
+  const routing: AppConfig["routing"] = {
+    mode: "first",
+    rules: [{ name: "Outages", match: { keywords: ["outage"] }, priority: "Urgent" }],
+  };
+
+  // What the form sends: every answer, but a priority only once someone picked one
+  const formArgs = {
+    name: "Ada",
+    issue: "Total outage since this morning",
+    category: "Technical Support",
+    locale: "en",
+    timeZone: "Europe/Berlin",
+  };
+
+  it("gives the routing rule's priority when none was picked", async () => {
+    const { client, store } = await connect({ routing });
+    expect((await submit(client, formArgs)).isError).toBe(false);
+    const [ticket] = await store.list();
+    expect(ticket.priority).toBe("Urgent");
+    expect(ticket.triage?.chosen.priority).toBe("Urgent");
+  });
+
+  it("keeps a priority the user picked, even the default one", async () => {
+    const { client, store } = await connect({ routing });
+    expect((await submit(client, { ...formArgs, priority: "Medium" })).isError).toBe(false);
+    const [ticket] = await store.list();
+    expect(ticket.priority).toBe("Medium");
+  });
+});
@@ -3,16 +3,58 @@ import {
   registerAppTool,
   RESOURCE_MIME_TYPE,
 } from "@modelcontextprotocol/ext-apps/server";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type {
-  CallToolResult,
-  ReadResourceResult,
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type CallToolResult,
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
 } from "@modelcontextprotocol/sdk/types.js";
-import nodemailer from "nodemailer";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { z } from "zod";
-import { type AppConfig, createConfig } from "./config.js";
+import { type Caller, canReadTicket, hasPermission } from "./auth.js";
+import { addComment, ticketTimeline, withoutInternalNotes } from "./comments.js";
+import { type AppConfig, createConfig, toPublicConfig } from "./config.js";
+import { openDraftStore } from "./drafts.js";
+import { createTranslator, isValidTimeZone, resolveLocale, translateEnglish } from "./i18n.js";
+import { applyTicketUpdate } from "./lifecycle.js";
+import { openOutbox } from "./outbox.js";
+import { replyPrompt, summaryPrompt, triagePrompt } from "./prompts.js";
+import { enableTicketSubscriptions, ticketUri } from "./resources.js";
+import { redactFields, rejectionMessage } from "./redaction.js";
+import { routeTicket } from "./routing.js";
+import { triageIssue } from "./triage.js";
+import { hasSlaState, openSlaMonitor, ticketSla } from "./sla.js";
+import {
+  type Rejection,
+  checkClientRateLimit,
+  checkEmailRateLimit,
+  checkSpam,
+  findDuplicate,
+} from "./protection.js";
+import {
+  matchesFilter,
+  openTicketStore,
+  paginate,
+  searchTickets,
+  storeAttachments,
+  toTicketView,
+  type AttachmentFile,
+  type Ticket,
+  type TicketChange,
+  type TicketComment,
+  type TicketStore,
+  type TicketView,
+} from "./tickets.js";
+import {
+  type AttachmentInput,
+  base64Size,
+  buildAttachmentSchema,
+  buildFieldSchema,
+  describeField,
+  fieldStates,
+} from "./validation.js";
 
 // Works both from source (server.ts) and compiled (dist/server.js)
 const DIST_DIR = import.meta.filename.endsWith(".ts")
@@ -20,106 +62,303 @@ const DIST_DIR = import.meta.filename.endsWith(".ts")
   : import.meta.dirname;
 
 /**
- * Build the email body from the support ticket fields.
+ * Build a Zod input schema shape from the config.
+ * Priority and category are limited to the configured values and each
+ * custom field gets the schema described by its validation rules.
+ * Conditional fields are optional here; their conditions are checked by
+ * the tool itself, which sees every answer.
  */
-function buildEmailBody(fields: Record<string, string>, config: AppConfig): string {
-  const lines = [
-    `New support ticket received via ${config.brand.name}`,
-    "",
-    "--- Ticket Details ---",
-    "",
-    `Name: ${fields.name}`,
-    `Issue: ${fields.issue}`,
-  ];
-
-  if (fields.priority) lines.push(`Priority: ${fields.priority}`);
-  if (fields.category) lines.push(`Category: ${fields.category}`);
-
-  // Append any custom field values
+function buildInputSchema(config: AppConfig) {
+  const shape: Record<string, z.ZodType<string | AttachmentInput[] | undefined>> = {
+    name: z.string().trim().min(1, "Name is required").describe("Full name of the customer"),
+    issue: z.string().trim().min(1, "Issue is required").describe("Description of the customer's issue"),
+    priority: z
+      .enum(config.priorities as [string, ...string[]])
+      .optional()
+      .describe(`Ticket priority level (defaults to ${config.defaultPriority})`),
+    category: z
+      .enum(config.categories as [string, ...string[]])
+      .optional()
+      .describe(`Issue category (defaults to ${config.defaultCategory})`),
+    locale: z
+      .string()
+      .optional()
+      .describe(
+        `Submitter's locale, e.g. de-DE; emails to them are sent in it ` +
+          `(offered: ${config.i18n.locales.join(", ")})`,
+      ),
+    timeZone: z
+      .string()
+      .refine(isValidTimeZone, "Expected an IANA time zone, e.g. Europe/Berlin")
+      .optional()
+      .describe("Submitter's IANA time zone, e.g. Europe/Berlin, for dates in emails to them"),
+  };
+
   for (const field of config.customFields) {
-    if (fields[field.key]) {
-      lines.push(`${field.label}: ${fields[field.key]}`);
+    const description = describeField(field);
+    if (field.type === "attachment") {
+      const base = buildAttachmentSchema(field).describe(description);
+      shape[field.key] = field.required && !field.visibleWhen ? base : base.optional();
+    } else if (field.required && !field.visibleWhen) {
+      shape[field.key] = buildFieldSchema(field).describe(description);
+    } else {
+      // A field left blank arrives as "", which counts as not given
+      shape[field.key] = z
+        .preprocess((v) => (v === "" ? undefined : v), buildFieldSchema(field).optional())
+        .describe(description);
     }
   }
 
-  lines.push("", "--- End of Ticket ---");
-  return lines.join("\n");
+  return shape;
 }
 
 /**
- * Send the support email via SMTP.
+ * Build the Zod shape shared by the ticket listing tools. Priority and
+ * category are restricted to the values configured in `AppConfig`.
  */
-async function sendSupportEmail(
-  fields: Record<string, string>,
-  config: AppConfig,
-): Promise<{ success: boolean; message: string }> {
-  // If SMTP credentials aren't configured, log instead of sending
-  if (!config.smtp.auth.user || !config.smtp.auth.pass) {
-    const body = buildEmailBody(fields, config);
-    console.error("=== EMAIL PREVIEW (SMTP not configured) ===");
-    console.error(`To: ${config.supportEmail}`);
-    console.error(
-      `Subject: ${config.emailSubjectTemplate
-        .replace("{{name}}", fields.name)
-        .replace("{{issue}}", fields.issue)}`,
-    );
-    console.error(body);
-    console.error("============================================");
-    return {
-      success: true,
-      message:
-        "Ticket recorded (email preview logged — configure SMTP credentials to enable delivery).",
-    };
-  }
-
-  const transporter = nodemailer.createTransport({
-    host: config.smtp.host,
-    port: config.smtp.port,
-    secure: config.smtp.secure,
-    auth: config.smtp.auth,
-  });
+function buildFilterSchema(config: AppConfig) {
+  const isoDate = z
+    .string()
+    .refine((v) => !Number.isNaN(Date.parse(v)), "Expected an ISO date or timestamp");
 
-  const subject = config.emailSubjectTemplate
-    .replace("{{name}}", fields.name)
-    .replace("{{issue}}", fields.issue);
+  return {
+    status: z
+      .enum(config.lifecycle.statuses as [string, ...string[]])
+      .optional()
+      .describe("Only tickets with this status"),
+    priority: z
+      .enum(config.priorities as [string, ...string[]])
+      .optional()
+      .describe("Only tickets with this priority"),
+    category: z
+      .enum(config.categories as [string, ...string[]])
+      .optional()
+      .describe("Only tickets in this category"),
+    email: z.string().optional().describe("Only tickets submitted from this email address"),
+    createdAfter: isoDate.optional().describe("Only tickets created on or after this ISO date/time"),
+    createdBefore: isoDate.optional().describe("Only tickets created on or before this ISO date/time"),
+    tag: z.string().optional().describe("Only tickets carrying this routing tag"),
+    ...(config.sla.policies.length > 0 && {
+      sla: z
+        .enum(["on_track", "at_risk", "breached", "met", "missed"])
+        .optional()
+        .describe("Only tickets with a first-response or resolution target in this state"),
+    }),
+    offset: z.number().int().min(0).default(0).describe("Number of tickets to skip"),
+    limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of tickets to return (1-100)"),
+  };
+}
 
-  await transporter.sendMail({
-    from: config.smtp.auth.user,
-    to: config.supportEmail,
-    subject,
-    text: buildEmailBody(fields, config),
-    replyTo: fields.email || undefined,
-  });
+/**
+ * Embed the public part of the config in the UI's HTML so the form renders
+ * the same brand, fields, priorities and categories the tool accepts.
+ * `<` is escaped so no value can close the script element early.
+ */
+function injectPublicConfig(html: string, config: AppConfig): string {
+  const json = JSON.stringify(toPublicConfig(config)).replace(/</g, "\\u003c");
+  return html.replace(
+    "</head>",
+    () => `<script id="app-config" type="application/json">${json}</script>\n</head>`,
+  );
+}
 
-  return { success: true, message: "Support ticket sent successfully." };
+/**
+ * Wrap a JSON payload as a text tool result.
+ */
+function jsonResult(payload: unknown, isError = false): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload) }],
+    ...(isError && { isError: true }),
+  };
 }
 
 /**
- * Build a Zod input schema shape from the config.
- * Each field becomes a `z.string()` with an appropriate description.
+ * The summary of a ticket returned by customer_support.
  */
-function buildInputSchema(config: AppConfig) {
-  const shape: Record<string, z.ZodString | z.ZodOptional<z.ZodString>> = {
-    name: z.string().describe("Full name of the customer"),
-    issue: z.string().describe("Description of the customer's issue"),
-    priority: z.string().optional().describe(`Ticket priority level (${config.priorities.join(", ")})`),
-    category: z.string().optional().describe(`Issue category (${config.categories.join(", ")})`),
+function ticketSummary(ticket: Ticket) {
+  return {
+    id: ticket.id,
+    status: ticket.status,
+    name: ticket.name,
+    issue: ticket.issue,
+    priority: ticket.priority,
+    category: ticket.category,
+    attachments: ticket.attachments.map((a) => a.filename),
+    timestamp: ticket.createdAt,
   };
+}
 
-  for (const field of config.customFields) {
-    const base = z.string().describe(field.label);
-    shape[field.key] = field.required ? base : base.optional();
-  }
+/**
+ * A ticket view as the caller may see it — internal notes only for agents —
+ * with its SLA status and due times when a policy applies.
+ */
+function ticketResult(config: AppConfig, caller: Caller | undefined, view: TicketView) {
+  const visible = hasPermission(caller, "view_internal_notes") ? view : withoutInternalNotes(view);
+  const sla = ticketSla(config, view);
+  return sla ? { ...visible, sla } : visible;
+}
 
-  return shape;
+/**
+ * One page of tickets, each as the caller may see it.
+ */
+function ticketPage(
+  config: AppConfig,
+  caller: Caller | undefined,
+  tickets: Ticket[],
+  offset: number,
+  limit: number,
+) {
+  const page = paginate(tickets, offset, limit);
+  return { ...page, tickets: page.tickets.map((t) => ticketResult(config, caller, t)) };
+}
+
+/**
+ * A submission turned away by the flood protection, as a structured error.
+ */
+function rejected(rejection: Rejection): CallToolResult {
+  return jsonResult({ status: "error", ...rejection }, true);
+}
+
+/**
+ * The form's spam trap, which it sends in the request's `_meta` rather than
+ * as a tool argument: a model that saw a "website" argument might fill it
+ * in with the customer's real site.
+ */
+function formHoneypot(config: AppConfig, meta: Record<string, unknown> | undefined): string | undefined {
+  const value = meta?.honeypot;
+  return config.protection.spam.honeypotField && typeof value === "string" ? value : undefined;
+}
+
+/**
+ * The error returned when the caller's roles do not allow a tool.
+ */
+function forbidden(caller: Caller | undefined, action: string): CallToolResult {
+  return jsonResult(
+    { status: "error", message: `Forbidden: "${caller?.name}" is not allowed to ${action}.` },
+    true,
+  );
+}
+
+export type { AppConfig } from "./config.js";
+export {
+  FileTicketStore,
+  MemoryTicketStore,
+  loadAttachments,
+  storeAttachments,
+  type Attachment,
+  type AttachmentFile,
+  type SlaEscalation,
+  type Ticket,
+  type TicketChange,
+  type TicketComment,
+  type TicketFilter,
+  type TicketPage,
+  type TicketRouting,
+  type TicketStore,
+  type TicketView,
+} from "./tickets.js";
+
+export { type DeliveryChannel, type DeliveryResult } from "./delivery.js";
+export {
+  Outbox,
+  type AcknowledgementReport,
+  type DeliveryReport,
+  type OutboxMessage,
+  type OutboxStatus,
+} from "./outbox.js";
+export {
+  renderAcknowledgement,
+  renderEmail,
+  type RenderedEmail,
+} from "./templates.js";
+export { canTransition, type TicketUpdate } from "./lifecycle.js";
+export {
+  ANONYMOUS_CALLER,
+  authenticate,
+  authRequired,
+  canReadTicket,
+  hasPermission,
+  inboundTokenMatches,
+  tokenFromHeaders,
+  type Caller,
+  type Permission,
+} from "./auth.js";
+export {
+  interpolateEnv,
+  keepRestartOnly,
+  loadConfig,
+  readConfigFile,
+  validateConfig,
+  watchConfig,
+} from "./config-file.js";
+export { findTenant, loadTenants, reloadTenants, type Tenant } from "./tenants.js";
+export { routeTicket, type RoutingDecision } from "./routing.js";
+export { threadMessageId, ticketTimeline, type TimelineEntry } from "./comments.js";
+export { receiveEmail, stripQuotedReply, type InboundResult } from "./inbound.js";
+export { DraftStore, type TicketDraft } from "./drafts.js";
+export { replyPrompt, summaryPrompt, triagePrompt } from "./prompts.js";
+export { enableTicketSubscriptions, isNotableChange, ticketUri } from "./resources.js";
+export { findSensitive, passesLuhn, type Finding } from "./sensitive.js";
+export { redactFields, type RedactionResult } from "./redaction.js";
+export {
+  NaiveBayes,
+  suggestTriage,
+  trainTriageModel,
+  type TriageModel,
+  type TriageSuggestion,
+  type TriageValue,
+} from "./triage.js";
+export {
+  addBusinessTime,
+  SlaMonitor,
+  ticketSla,
+  type SlaClock,
+  type SlaState,
+  type TicketSla,
+} from "./sla.js";
+export {
+  scoreSpam,
+  textSimilarity,
+  type Rejection,
+  type SpamScore,
+} from "./protection.js";
+
+export interface ServerOptions {
+  /** Ticket store to use instead of the one described by `config.storage` */
+  store?: TicketStore;
+  /**
+   * The authenticated caller, or {@link ANONYMOUS_CALLER} over HTTP without
+   * API keys. Every tool then checks the caller's roles and history entries
+   * are recorded under the caller's name. Without a caller all tools are
+   * available, as suits stdio and embedding.
+   */
+  caller?: Caller;
+  /**
+   * Identifies the client for per-client rate limits, e.g. its IP address.
+   * Defaults to the caller's name. Without either, as over stdio, the
+   * caller is trusted and the per-client limit does not apply.
+   */
+  client?: string;
 }
 
 /**
- * Creates a new MCP server instance with the customer_support tool and
- * its companion UI resource registered.
+ * Creates a new MCP server instance with the customer_support tool, the
+ * ticket lookup, update and comment tools, the outbox tools, the triage,
+ * summary and reply prompts, a resource per ticket and the companion UI
+ * resource registered. In draft mode the form-only submit_ticket_draft tool
+ * is added too, and with triage suggestions on, suggest_triage.
  */
-export function createServer(configOverrides?: Partial<AppConfig>): McpServer {
+export function createServer(
+  configOverrides?: Partial<AppConfig>,
+  options: ServerOptions = {},
+): McpServer {
   const config = createConfig(configOverrides);
+  const { caller } = options;
+  const client = options.client ?? caller?.name;
+  const store = options.store ?? openTicketStore(config.storage);
+  const outbox = openOutbox(config, store);
+  const drafts = openDraftStore(config);
+  openSlaMonitor(config, store, outbox);
 
   const server = new McpServer({
     name: `${config.brand.name} MCP Server`,
@@ -128,6 +367,191 @@ export function createServer(configOverrides?: Partial<AppConfig>): McpServer {
 
   const resourceUri = "ui://customer-support/mcp-app.html";
   const inputSchema = buildInputSchema(config);
+  const translate = createTranslator(config.i18n, config.i18n.defaultLocale);
+
+  // Validate, store and deliver a ticket — what customer_support does
+  // unless the ticket waits as a draft for the user to confirm it
+  const submitTicket = async (input: Record<string, unknown>, honeypot?: string): Promise<CallToolResult> => {
+    // Sensitive data goes before anything is checked, stored, sent or logged
+    const texts: Record<string, string> = {};
+    for (const key of ["name", "issue", ...config.customFields.map((f) => f.key)]) {
+      if (typeof input[key] === "string") texts[key] = input[key];
+    }
+    const redaction = redactFields(config, texts);
+    if (redaction.rejected.length > 0) {
+      return jsonResult(
+        { status: "error", code: "sensitive_data", message: rejectionMessage(redaction.rejected) },
+        true,
+      );
+    }
+    const args = { ...input, ...redaction.values };
+
+    const { name, issue, priority, category, locale, timeZone, ...values } = args as unknown as {
+      name: string;
+      issue: string;
+      priority?: string;
+      category?: string;
+      locale?: string;
+      timeZone?: string;
+    } & Record<string, string | AttachmentInput[] | undefined>;
+
+    const emailValue = values[config.acknowledgement.emailField];
+    const email = typeof emailValue === "string" ? emailValue.trim() || undefined : undefined;
+
+    // Fields hidden by their conditions are dropped, as the form never sends them
+    const states = fieldStates(config.customFields, {
+      category: category || config.defaultCategory,
+      priority: priority || config.defaultPriority,
+      values,
+    });
+    const missing = config.customFields.find((field) => {
+      const value = values[field.key];
+      const empty = Array.isArray(value) ? value.length === 0 : !value?.trim();
+      return states[field.key].required && empty;
+    });
+    if (missing) {
+      return jsonResult(
+        { status: "error", message: translateEnglish("validation.required", { label: missing.label }) },
+        true,
+      );
+    }
+
+    const limited = client ? checkClientRateLimit(config, client) : undefined;
+    if (limited) return rejected(limited);
+    const spam = checkSpam(config, {
+      name,
+      issue,
+      honeypot,
+    });
+    if (spam) return rejected(spam);
+
+    try {
+      // A resubmission of a recent ticket returns that ticket instead of
+      // creating and delivering another one
+      const duplicate = findDuplicate(
+        config,
+        (await store.list()).filter((t) => canReadTicket(caller, t)),
+        { name, issue, email, submittedBy: caller?.name },
+      );
+      if (duplicate) {
+        return jsonResult({
+          status: "ok",
+          duplicate: true,
+          message:
+            `This looks like ticket ${duplicate.id}, submitted ` +
+            `${new Date(duplicate.createdAt).toUTCString()}. It is already ` +
+            "with the support team, so no new ticket was created.",
+          ticket: ticketSummary(duplicate),
+        });
+      }
+
+      const emailLimited = email && checkEmailRateLimit(config, email);
+      if (emailLimited) return rejected(emailLimited);
+
+      const customFields: Record<string, string> = {};
+      const attachments: AttachmentFile[] = [];
+      for (const field of config.customFields) {
+        const value = values[field.key];
+        if (!value || !states[field.key].visible) continue;
+        if (Array.isArray(value)) {
+          for (const file of value) {
+            attachments.push({ field: field.key, ...file, size: base64Size(file.data) });
+          }
+        } else {
+          customFields[field.key] = value;
+        }
+      }
+
+      const route = routeTicket(config, {
+        issue,
+        priority: priority || undefined,
+        category: category || config.defaultCategory,
+        customFields,
+      });
+
+      // Worked out again here rather than trusted from the form
+      const triage = config.triage.enabled ? await triageIssue(config, store, issue) : undefined;
+      const tags = [...route.tags];
+      for (const tag of triage?.tags ?? []) {
+        if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+      }
+
+      // A routing rule's priority applies when the submitter picked none
+      const chosen = {
+        category: category || config.defaultCategory,
+        priority: priority || route.priority || config.defaultPriority,
+      };
+
+      const ticket = await store.create({
+        status: config.lifecycle.initialStatus,
+        name,
+        issue,
+        ...chosen,
+        ...(route.assignee && { assignee: route.assignee }),
+        ...(caller && !caller.anonymous && { submittedBy: caller.name }),
+        ...(locale && { locale: resolveLocale(config.i18n, locale) }),
+        ...(timeZone && { timeZone }),
+        ...(tags.length > 0 && { tags }),
+        ...(route.routing && { routing: route.routing }),
+        ...(redaction.redactions.length > 0 && { redactions: redaction.redactions }),
+        ...(triage && {
+          triage: {
+            suggested: {
+              ...(triage.category && { category: triage.category.value }),
+              ...(triage.priority && { priority: triage.priority.value }),
+              tags: triage.tags,
+            },
+            chosen,
+          },
+        }),
+        customFields,
+        attachments: await storeAttachments(store, attachments),
+      });
+
+      // The ticket is safe from here on: anything that fails to deliver
+      // now stays in the outbox and is retried in the background
+      const { deliveries, acknowledgement } = await outbox.submit(ticket);
+      const delivered = deliveries.filter((d) => d.status === "delivered").map((d) => d.channel);
+      const logged = deliveries.filter((d) => d.status === "logged").map((d) => d.channel);
+      const queued = deliveries
+        .filter((d) => d.status === "queued" || d.status === "failed")
+        .map((d) => d.channel);
+
+      let message = `Ticket ${ticket.id} submitted`;
+      if (delivered.length > 0) message += ` and delivered via ${delivered.join(", ")}`;
+      message += ".";
+      if (logged.length > 0) {
+        message += ` Nothing was sent via ${logged.join(", ")}: SMTP is not configured, so an email preview was logged.`;
+      }
+      if (queued.length > 0) {
+        message += ` Delivery via ${queued.join(", ")} is queued for retry.`;
+      }
+      if (ticket.redactions) {
+        const removed = ticket.redactions.map((r) => `${r.rule} in ${r.field}`).join(", ");
+        message += ` Sensitive data was removed before storing it: ${removed}.`;
+      }
+      if (ticket.routing) {
+        const rules = ticket.routing.rules.map((r) => `"${r}"`).join(", ");
+        message += ` Routed by ${rules}`;
+        message += ticket.assignee ? ` and assigned to ${ticket.assignee}.` : ".";
+      }
+
+      return jsonResult({
+        status: "ok",
+        message,
+        deliveries,
+        ...(acknowledgement && { acknowledgement }),
+        ...(ticket.redactions && { redactions: ticket.redactions }),
+        ...(ticket.routing && {
+          routing: { ...ticket.routing, assignee: ticket.assignee, tags: ticket.tags ?? [] },
+        }),
+        ticket: ticketSummary(ticket),
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return jsonResult({ status: "error", message: msg }, true);
+    }
+  };
 
   // ── customer_support tool ─────────────────────────────────────────────
   registerAppTool(
@@ -135,45 +559,530 @@ export function createServer(configOverrides?: Partial<AppConfig>): McpServer {
     "customer_support",
     {
       title: `${config.brand.name}`,
-      description:
-        "Submit a customer support ticket. Collects the customer's name, " +
-        "issue description, and optional metadata, then sends an email to " +
-        "the support team.",
+      description: config.drafts.enabled
+        ? `${translate("tool.description")} ${translate("tool.draftNote")}`
+        : translate("tool.description"),
       inputSchema,
       _meta: { ui: { resourceUri } },
     },
-    async (args): Promise<CallToolResult> => {
-      const fields = args as unknown as Record<string, string>;
-      try {
-        const result = await sendSupportEmail(fields, config);
+    async (args, extra): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "create_ticket")) return forbidden(caller, "submit tickets");
+
+      // The model only fills in the form; the user sends it from the UI
+      if (config.drafts.enabled) {
+        const draft = drafts.create(caller?.name);
         return {
-          content: [
+          ...jsonResult({
+            status: "draft",
+            message:
+              "Nothing has been sent yet. The form is now filled in with these details for the " +
+              "user to review; the ticket is sent when they press Submit. Do not call " +
+              "customer_support again for this request.",
+            expiresAt: draft.expiresAt,
+          }),
+          // Only the form sees the token, and only it can confirm the draft
+          _meta: { draftToken: draft.token },
+        };
+      }
+      return submitTicket(args, formHoneypot(config, extra._meta));
+    },
+  );
+
+  // ── submit_ticket_draft tool (form only) ──────────────────────────────
+  if (config.drafts.enabled) {
+    registerAppTool(
+      server,
+      "submit_ticket_draft",
+      {
+        title: "Submit ticket draft",
+        description:
+          "Send a ticket drafted by customer_support, with the details as the user " +
+          "confirmed them in the form. Only the form can call this tool.",
+        inputSchema: {
+          draftToken: z.string().min(1).describe("Token from the customer_support result's _meta"),
+          ...inputSchema,
+        },
+        _meta: { ui: { resourceUri, visibility: ["app"] } },
+      },
+      async ({ draftToken, ...args }, extra): Promise<CallToolResult> => {
+        if (!hasPermission(caller, "create_ticket")) return forbidden(caller, "submit tickets");
+
+        const draft = drafts.claim(draftToken, caller?.name);
+        if (!draft) {
+          return jsonResult(
             {
-              type: "text",
-              text: JSON.stringify({
-                status: result.success ? "ok" : "error",
-                message: result.message,
-                ticket: {
-                  name: fields.name,
-                  issue: fields.issue,
-                  priority: fields.priority ?? "Medium",
-                  category: fields.category ?? "General Inquiry",
-                  timestamp: new Date().toISOString(),
-                },
-              }),
+              status: "error",
+              message: "This draft has expired or was already sent. Ask the assistant to start a new one.",
             },
-          ],
-        };
+            true,
+          );
+        }
+
+        // A rejected submission puts the draft back, so the user can fix it and retry
+        let result: CallToolResult | undefined;
+        try {
+          result = await submitTicket(args, formHoneypot(config, extra._meta));
+          return result;
+        } finally {
+          if (!result || result.isError) drafts.release(draft);
+        }
+      },
+    );
+  }
+
+  // ── suggest_triage tool ───────────────────────────────────────────────
+  if (config.triage.enabled) {
+    server.registerTool(
+      "suggest_triage",
+      {
+        title: "Suggest triage",
+        description:
+          "Suggest a category, priority and tags for an issue description, from keyword " +
+          "rules and past tickets. Works offline and stores nothing; the form uses it while " +
+          "the issue is typed.",
+        inputSchema: {
+          issue: z.string().describe("The issue description so far"),
+        },
+        annotations: { readOnlyHint: true },
+      },
+      async ({ issue }): Promise<CallToolResult> => {
+        if (!hasPermission(caller, "create_ticket")) return forbidden(caller, "submit tickets");
+        return jsonResult({ status: "ok", ...(await triageIssue(config, store, issue)) });
+      },
+    );
+  }
+
+  // ── get_ticket tool ───────────────────────────────────────────────────
+  server.registerTool(
+    "get_ticket",
+    {
+      title: "Get ticket",
+      description: "Fetch a single support ticket by its ID (e.g. CS-000123).",
+      inputSchema: {
+        id: z.string().describe("Ticket ID, e.g. CS-000123"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ id }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "read_own_tickets")) return forbidden(caller, "read tickets");
+
+      // Other people's tickets are reported as missing, not as forbidden
+      const ticket = await store.get(id);
+      if (!ticket || !canReadTicket(caller, ticket)) {
+        return jsonResult({ status: "error", message: `Ticket ${id} not found.` }, true);
+      }
+      return jsonResult({ status: "ok", ticket: ticketResult(config, caller, toTicketView(ticket)) });
+    },
+  );
+
+  const filterSchema = buildFilterSchema(config);
+
+  // ── list_tickets tool ─────────────────────────────────────────────────
+  server.registerTool(
+    "list_tickets",
+    {
+      title: "List tickets",
+      description:
+        "List support tickets, newest first. Filter by status, priority, " +
+        "category, submitter email, creation date range, tag and SLA state; " +
+        "paginate with offset and limit. Tickets with an SLA show its due " +
+        "times and state.",
+      inputSchema: filterSchema,
+      annotations: { readOnlyHint: true },
+    },
+    async ({ offset, limit, sla, ...filter }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "read_own_tickets")) return forbidden(caller, "read tickets");
+
+      const tickets = (await store.list())
+        .filter(
+          (t) =>
+            canReadTicket(caller, t) && matchesFilter(t, filter, config.acknowledgement.emailField),
+        )
+        .filter((t) => !sla || hasSlaState(config, t, sla))
+        .reverse();
+      return jsonResult({ status: "ok", ...ticketPage(config, caller, tickets, offset, limit) });
+    },
+  );
+
+  // ── search_tickets tool ───────────────────────────────────────────────
+  server.registerTool(
+    "search_tickets",
+    {
+      title: "Search tickets",
+      description:
+        "Full-text search over ticket names, issue descriptions and custom " +
+        "field values. Accepts the same filters and pagination as list_tickets.",
+      inputSchema: {
+        query: z.string().min(1).describe("Words to search for; every word must match"),
+        ...filterSchema,
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ query, offset, limit, sla, ...filter }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "read_own_tickets")) return forbidden(caller, "read tickets");
+
+      const tickets = (await store.list()).filter(
+        (t) =>
+          canReadTicket(caller, t) &&
+          matchesFilter(t, filter, config.acknowledgement.emailField) &&
+          (!sla || hasSlaState(config, t, sla)),
+      );
+      return jsonResult({
+        status: "ok",
+        ...ticketPage(config, caller, searchTickets(tickets, query), offset, limit),
+      });
+    },
+  );
+
+  // ── update_ticket tool ────────────────────────────────────────────────
+  const transitionList = Object.entries(config.lifecycle.transitions)
+    .map(([from, to]) => `${from} → ${to.join("/")}`)
+    .join("; ");
+
+  server.registerTool(
+    "update_ticket",
+    {
+      title: "Update ticket",
+      description:
+        "Change a ticket's status, priority, category or assignee. Status " +
+        `changes must follow the configured lifecycle (${transitionList}). ` +
+        "Every change is recorded in the ticket's history.",
+      inputSchema: {
+        id: z.string().describe("Ticket ID, e.g. CS-000123"),
+        // Authenticated changes are always recorded under the caller's name
+        ...(!caller && {
+          actor: z.string().min(1).describe("Name or email of the person making the change"),
+        }),
+        status: z
+          .enum(config.lifecycle.statuses as [string, ...string[]])
+          .optional()
+          .describe("New status"),
+        priority: z
+          .enum(config.priorities as [string, ...string[]])
+          .optional()
+          .describe("New priority"),
+        category: z
+          .enum(config.categories as [string, ...string[]])
+          .optional()
+          .describe("New category"),
+        assignee: z.string().optional().describe("New assignee; an empty string unassigns the ticket"),
+        note: z.string().optional().describe("Reason for the change, stored in the history"),
+      },
+    },
+    async ({ id, actor, note, ...update }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "update_ticket")) return forbidden(caller, "update tickets");
+
+      try {
+        let changes: TicketChange[] = [];
+        const ticket = await store.update(id, (t) => {
+          changes = applyTicketUpdate(t, update, caller?.name ?? actor ?? "", config, note);
+        });
+        if (!ticket) {
+          return jsonResult({ status: "error", message: `Ticket ${id} not found.` }, true);
+        }
+        return jsonResult({
+          status: "ok",
+          changes,
+          ticket: ticketResult(config, caller, toTicketView(ticket)),
+        });
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: JSON.stringify({ status: "error", message: msg }) }],
-          isError: true,
-        };
+        return jsonResult({ status: "error", message: msg }, true);
+      }
+    },
+  );
+
+  // ── add_ticket_comment tool ───────────────────────────────────────────
+  server.registerTool(
+    "add_ticket_comment",
+    {
+      title: "Add ticket comment",
+      description:
+        "Add to a ticket's conversation. A public reply from the team is " +
+        "emailed to the customer, threaded with their earlier emails; a " +
+        "public comment from the customer is emailed to the support team. " +
+        "Internal notes are only visible to agents and never emailed.",
+      inputSchema: {
+        id: z.string().describe("Ticket ID, e.g. CS-000123"),
+        body: z.string().min(1).describe("The comment text"),
+        visibility: z
+          .enum(["public", "internal"])
+          .default("public")
+          .describe("public: part of the conversation with the customer; internal: a note for agents"),
+        // Authenticated comments are attributed to the caller
+        ...(!caller && {
+          author: z.string().min(1).describe("Name of the person writing the comment"),
+          from: z
+            .enum(["team", "customer"])
+            .default("team")
+            .describe("Whether the comment comes from the support team or the customer"),
+        }),
+      },
+    },
+    async ({ id, body, visibility, author, from }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "add_comment")) return forbidden(caller, "comment on tickets");
+      if (visibility === "internal" && !hasPermission(caller, "view_internal_notes")) {
+        return forbidden(caller, "add internal notes");
+      }
+
+      const existing = await store.get(id);
+      if (!existing || !canReadTicket(caller, existing)) {
+        return jsonResult({ status: "error", message: `Ticket ${id} not found.` }, true);
+      }
+
+      const redaction = redactFields(config, { body });
+      if (redaction.rejected.length > 0) {
+        return jsonResult(
+          { status: "error", code: "sensitive_data", message: rejectionMessage(redaction.rejected) },
+          true,
+        );
+      }
+
+      try {
+        let comment: TicketComment | undefined;
+        const ticket = await store.update(id, (t) => {
+          comment = addComment(
+            t,
+            {
+              author: caller?.name ?? author ?? "",
+              // Agents reply as the team; submitters comment as the customer
+              from: caller ? (hasPermission(caller, "update_ticket") ? "team" : "customer") : (from ?? "team"),
+              visibility,
+              body: redaction.values.body,
+              ...(redaction.redactions.length > 0 && { redactions: redaction.redactions }),
+            },
+            config,
+          );
+        });
+        if (!ticket || !comment) {
+          return jsonResult({ status: "error", message: `Ticket ${id} not found.` }, true);
+        }
+
+        const email = await outbox.comment(ticket, comment);
+        let message =
+          visibility === "internal"
+            ? `Internal note added to ${ticket.id}.`
+            : `Comment added to ${ticket.id}.`;
+        if (email?.status === "delivered") message += ` ${email.message}`;
+        else if (email?.status === "queued") message += " The email is queued for retry.";
+        else if (email) message += ` The email was not sent: ${email.message}`;
+
+        return jsonResult({ status: "ok", message, comment, ...(email && { email }) });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return jsonResult({ status: "error", message: msg }, true);
+      }
+    },
+  );
+
+  // ── get_ticket_timeline tool ──────────────────────────────────────────
+  server.registerTool(
+    "get_ticket_timeline",
+    {
+      title: "Ticket timeline",
+      description:
+        "Show a ticket's conversation and history in order: the submission, " +
+        "replies and comments with their authors, and every status, priority, " +
+        "category or assignee change. Agents also see internal notes and SLA " +
+        "escalations.",
+      inputSchema: {
+        id: z.string().describe("Ticket ID, e.g. CS-000123"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ id }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "read_own_tickets")) return forbidden(caller, "read tickets");
+
+      const ticket = await store.get(id);
+      if (!ticket || !canReadTicket(caller, ticket)) {
+        return jsonResult({ status: "error", message: `Ticket ${id} not found.` }, true);
+      }
+      return jsonResult({
+        status: "ok",
+        ticketId: ticket.id,
+        timeline: ticketTimeline(ticket, hasPermission(caller, "view_internal_notes")),
+      });
+    },
+  );
+
+  // ── outbox_status tool ────────────────────────────────────────────────
+  server.registerTool(
+    "outbox_status",
+    {
+      title: "Outbox status",
+      description:
+        "Show the delivery outbox: how many deliveries are pending, " +
+        "delivered, only logged (SMTP not configured) or dead (out of " +
+        "retries), and the most recent messages " +
+        "with their attempts and last error.",
+      inputSchema: {
+        status: z
+          .enum(["pending", "delivered", "logged", "dead"])
+          .optional()
+          .describe("Only messages in this state"),
+        ticketId: z.string().optional().describe("Only messages for this ticket"),
+        limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of messages to return (1-100)"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ limit, ...filter }): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "manage_outbox")) return forbidden(caller, "view the outbox");
+      return jsonResult({ status: "ok", ...(await outbox.summary(filter, limit)) });
+    },
+  );
+
+  // ── retry_outbox tool ─────────────────────────────────────────────────
+  server.registerTool(
+    "retry_outbox",
+    {
+      title: "Retry deliveries",
+      description:
+        "Re-drive undelivered outbox messages immediately, resetting their " +
+        "attempt count. Give a message ID or a ticket ID; with neither, " +
+        "every dead message is retried.",
+      inputSchema: {
+        id: z.string().optional().describe("Outbox message ID, e.g. msg-42"),
+        ticketId: z.string().optional().describe("Retry every undelivered message for this ticket"),
+      },
+    },
+    async (selector): Promise<CallToolResult> => {
+      if (!hasPermission(caller, "manage_outbox")) return forbidden(caller, "retry deliveries");
+
+      const messages = await outbox.retry(selector);
+      if (messages.length === 0) {
+        return jsonResult({ status: "ok", message: "Nothing to retry.", messages });
       }
+      const delivered = messages.filter((m) => m.status === "delivered").length;
+      return jsonResult({
+        status: "ok",
+        message: `Retried ${messages.length} message(s); ${delivered} delivered.`,
+        messages,
+      });
+    },
+  );
+
+  // ── Prompts ───────────────────────────────────────────────────────────
+  // Prompts cannot return an error result, so failures are protocol errors
+  const promptTicket = async (id: string) => {
+    if (!hasPermission(caller, "read_own_tickets")) {
+      throw new McpError(ErrorCode.InvalidParams, `Forbidden: "${caller?.name}" is not allowed to read tickets.`);
+    }
+    const ticket = await store.get(id);
+    if (!ticket || !canReadTicket(caller, ticket)) {
+      throw new McpError(ErrorCode.InvalidParams, `Ticket ${id} not found.`);
+    }
+    return ticket;
+  };
+  const ticketIdArg = z.string().describe("Ticket ID, e.g. CS-000123");
+
+  server.registerPrompt(
+    "triage_ticket",
+    {
+      title: "Triage ticket",
+      description: "Suggest a category and priority for a ticket from the configured ones.",
+      argsSchema: { ticketId: ticketIdArg },
     },
+    async ({ ticketId }) => {
+      const ticket = await promptTicket(ticketId);
+      return triagePrompt(config, ticketResult(config, caller, toTicketView(ticket)));
+    },
+  );
+
+  server.registerPrompt(
+    "summarize_ticket",
+    {
+      title: "Summarise ticket",
+      description: "Summarise a ticket's conversation and what is still open, for a handover.",
+      argsSchema: { ticketId: ticketIdArg },
+    },
+    async ({ ticketId }) => {
+      const ticket = await promptTicket(ticketId);
+      return summaryPrompt(
+        ticketResult(config, caller, toTicketView(ticket)),
+        ticketTimeline(ticket, hasPermission(caller, "view_internal_notes")),
+      );
+    },
+  );
+
+  server.registerPrompt(
+    "draft_reply",
+    {
+      title: "Draft customer reply",
+      description: `Draft a reply to the customer on a ticket, in the ${config.brand.name} voice and the customer's language.`,
+      argsSchema: {
+        ticketId: ticketIdArg,
+        guidance: z.string().optional().describe("What the reply should say, e.g. \"refund approved\""),
+      },
+    },
+    async ({ ticketId, guidance }) => {
+      const ticket = await promptTicket(ticketId);
+      return replyPrompt(config, ticketResult(config, caller, toTicketView(ticket)), guidance);
+    },
+  );
+
+  // ── Ticket resources ──────────────────────────────────────────────────
+  const canRead = (ticket: Ticket) =>
+    hasPermission(caller, "read_own_tickets") && canReadTicket(caller, ticket);
+  const resourceTicket = async (id: unknown) => {
+    const ticket = await store.get(String(id));
+    if (!ticket || !canRead(ticket)) {
+      throw new McpError(ErrorCode.InvalidParams, `Ticket ${String(id)} not found.`);
+    }
+    return ticket;
+  };
+  const jsonContents = (uri: URL, value: unknown): ReadResourceResult => ({
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }],
+  });
+
+  server.registerResource(
+    "ticket",
+    new ResourceTemplate(ticketUri("{id}"), {
+      // Newest first, as a client is most likely to want a recent ticket
+      list: async () => ({
+        resources: (await store.list())
+          .filter(canRead)
+          .reverse()
+          .map((ticket) => ({
+            uri: ticketUri(ticket.id),
+            name: ticket.id,
+            title: `${ticket.id}: ${ticket.issue.split("\n")[0].slice(0, 80)}`,
+            description: `${ticket.status} · ${ticket.priority} · ${ticket.category} · ${ticket.name}`,
+            mimeType: "application/json",
+          })),
+      }),
+      complete: {
+        id: async (value) =>
+          (await store.list())
+            .filter((ticket) => canRead(ticket) && ticket.id.toLowerCase().startsWith(value.toLowerCase()))
+            .map((ticket) => ticket.id)
+            .reverse()
+            .slice(0, 100),
+      },
+    }),
+    {
+      title: "Support ticket",
+      description:
+        "A support ticket as JSON: details, custom fields, conversation, history and SLA state. " +
+        "Subscribe to hear when its status or conversation changes.",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => jsonContents(uri, ticketResult(config, caller, toTicketView(await resourceTicket(id)))),
+  );
+
+  server.registerResource(
+    "ticket_timeline",
+    new ResourceTemplate(ticketUri("{id}", "timeline"), { list: undefined }),
+    {
+      title: "Ticket timeline",
+      description: "A ticket's submission, changes and comments in order, as JSON.",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) =>
+      jsonContents(uri, ticketTimeline(await resourceTicket(id), hasPermission(caller, "view_internal_notes"))),
   );
 
+  enableTicketSubscriptions(server, store, canRead);
+
   // ── UI resource ───────────────────────────────────────────────────────
   registerAppResource(
     server,
@@ -186,7 +1095,13 @@ export function createServer(configOverrides?: Partial<AppConfig>): McpServer {
         "utf-8",
       );
       return {
-        contents: [{ uri: resourceUri, mimeType: RESOURCE_MIME_TYPE, text: html }],
+        contents: [
+          {
+            uri: resourceUri,
+            mimeType: RESOURCE_MIME_TYPE,
+            text: injectPublicConfig(html, config),
+          },
+        ],
       };
     },
   );
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { createConfig, type BusinessHoursConfig } from "./config.js";
+import { addBusinessTime, findSlaPolicy, ticketSla } from "./sla.js";
+import type { Ticket } from "./tickets.js";
+
+const HOUR_MS = 3_600_000;
+
+const hours: BusinessHoursConfig = {
+  timeZone: "UTC",
+  days: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "17:00",
+  holidays: [],
+};
+
+function at(iso: string): number {
+  return Date.parse(iso);
+}
+
+describe("addBusinessTime", () => {
+  it("adds time within a working day", () => {
+    // 2026-10-19 is a Monday
+    expect(addBusinessTime(at("2026-10-19T10:00:00Z"), 2 * HOUR_MS, hours)).toBe(at("2026-10-19T12:00:00Z"));
+  });
+
+  it("carries the rest over to the next working day", () => {
+    expect(addBusinessTime(at("2026-10-19T16:00:00Z"), 2 * HOUR_MS, hours)).toBe(at("2026-10-20T10:00:00Z"));
+  });
+
+  it("starts counting when the working day starts", () => {
+    expect(addBusinessTime(at("2026-10-19T06:30:00Z"), HOUR_MS, hours)).toBe(at("2026-10-19T10:00:00Z"));
+  });
+
+  it("skips weekends and holidays", () => {
+    const friday = at("2026-10-23T16:00:00Z");
+    expect(addBusinessTime(friday, 2 * HOUR_MS, hours)).toBe(at("2026-10-26T10:00:00Z"));
+    expect(addBusinessTime(friday, 2 * HOUR_MS, { ...hours, holidays: ["2026-10-26"] })).toBe(
+      at("2026-10-27T10:00:00Z"),
+    );
+  });
+
+  it("uses the hours of the configured time zone", () => {
+    const berlin = { ...hours, timeZone: "Europe/Berlin" };
+    // 09:00 in Berlin is 08:00 UTC in winter and 07:00 UTC in summer
+    expect(addBusinessTime(at("2026-01-05T00:00:00Z"), HOUR_MS, berlin)).toBe(at("2026-01-05T09:00:00Z"));
+    expect(addBusinessTime(at("2026-07-06T00:00:00Z"), HOUR_MS, berlin)).toBe(at("2026-07-06T08:00:00Z"));
+  });
+
+  it("gives up on a calendar without working days", () => {
+    expect(() => addBusinessTime(at("2026-10-19T10:00:00Z"), HOUR_MS, { ...hours, days: [] })).toThrow(
+      "no working time left",
+    );
+  });
+});
+
+describe("ticketSla", () => {
+  const config = createConfig({
+    sla: {
+      ...createConfig().sla,
+      businessHours: hours,
+      policies: [
+        { priority: "High", firstResponseHours: 4, resolutionHours: 16 },
+        { priority: "High", category: "Billing", firstResponseHours: 1 },
+      ],
+    },
+  });
+
+  const ticket: Ticket = {
+    id: "CS-000001",
+    name: "Ada",
+    issue: "Charged twice",
+    status: "open",
+    priority: "High",
+    category: "Technical Support",
+    customFields: {},
+    attachments: [],
+    createdAt: "2026-10-19T10:00:00.000Z",
+    updatedAt: "2026-10-19T10:00:00.000Z",
+    history: [],
+  };
+
+  it("prefers a policy for the ticket's category", () => {
+    expect(findSlaPolicy(config, ticket)?.category).toBeUndefined();
+    expect(findSlaPolicy(config, { ...ticket, category: "Billing" })?.category).toBe("Billing");
+    expect(findSlaPolicy(config, { ...ticket, priority: "Low" })).toBeUndefined();
+  });
+
+  it("moves from on track to at risk to breached", () => {
+    expect(ticketSla(config, ticket, at("2026-10-19T11:00:00Z"))?.firstResponse?.state).toBe("on_track");
+    expect(ticketSla(config, ticket, at("2026-10-19T13:30:00Z"))?.firstResponse?.state).toBe("at_risk");
+    const breached = ticketSla(config, ticket, at("2026-10-19T14:00:00Z"));
+    expect(breached?.firstResponse).toMatchObject({ state: "breached", dueAt: "2026-10-19T14:00:00.000Z" });
+    expect(breached?.resolution).toMatchObject({ state: "on_track", dueAt: "2026-10-21T10:00:00.000Z" });
+  });
+
+  it("counts the first status change as the first response", () => {
+    const answered: Ticket = {
+      ...ticket,
+      status: "in_progress",
+      history: [
+        { field: "status", from: "open", to: "in_progress", changedBy: "sam", changedAt: "2026-10-19T11:00:00.000Z" },
+      ],
+    };
+    expect(ticketSla(config, answered, at("2026-10-20T10:00:00Z"))?.firstResponse).toMatchObject({
+      state: "met",
+      completedAt: "2026-10-19T11:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * @file SLA targets, business-hours arithmetic and escalation.
+ *
+ * `AppConfig.sla.policies` give each priority (optionally per category) a
+ * time to first response and a time to resolution. Both are measured in
+ * business hours from the ticket's creation, using the working days, hours
+ * and holidays of `sla.businessHours`. A background monitor looks for
+ * tickets close to or past their due times and queues an escalation email
+ * through the outbox, once per ticket, target and level.
+ */
+import type { AppConfig, BusinessHoursConfig, SlaPolicy } from "./config.js";
+import type { Outbox } from "./outbox.js";
+import type { SlaEscalation, SlaMetric, Ticket, TicketStore } from "./tickets.js";
+
+/**
+ * - "on_track" / "at_risk" / "breached" while the clock is running
+ * - "met" / "missed" once the target has been reached, in time or late
+ */
+export type SlaState = "on_track" | "at_risk" | "breached" | "met" | "missed";
+
+export interface SlaClock {
+  targetHours: number;
+  dueAt: string;
+  state: SlaState;
+  /** When the target was reached */
+  completedAt?: string;
+}
+
+export interface TicketSla {
+  /** The policy applied, e.g. "High" or "High / Billing" */
+  policy: string;
+  firstResponse?: SlaClock;
+  resolution?: SlaClock;
+}
+
+/** What the SLA looks at — tickets and ticket views both qualify. */
+type SlaTicket = Pick<Ticket, "priority" | "category" | "status" | "createdAt" | "history" | "comments">;
+
+const HOUR_MS = 3_600_000;
+const DAY_MINUTES = 24 * 60;
+
+/** Give up looking for working time this many days ahead. */
+const MAX_CALENDAR_DAYS = 5 * 366;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The UTC offset of a time zone at an instant, in milliseconds. */
+function zoneOffset(time: number, timeZone: string): number {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(
+    format.formatToParts(time).map((p) => [p.type, Number(p.value)]),
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/** The instant a wall-clock time on a calendar day occurs in a time zone. */
+function zonedTime(day: number, minutes: number, timeZone: string): number {
+  const guess = day + minutes * 60_000;
+  const offset = zoneOffset(guess, timeZone);
+  const time = guess - offset;
+  // Correct once when the offset changes in between (daylight saving)
+  const actual = zoneOffset(time, timeZone);
+  return actual === offset ? time : guess - actual;
+}
+
+/** Midnight UTC of the calendar day an instant falls on in a time zone. */
+function calendarDay(time: number, timeZone: string): number {
+  const local = time + zoneOffset(time, timeZone);
+  return local - (local % (DAY_MINUTES * 60_000));
+}
+
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * The working period of a calendar day, as UTC instants, or undefined on
+ * days off.
+ */
+function workingPeriod(day: number, hours: BusinessHoursConfig): [number, number] | undefined {
+  const date = new Date(day);
+  if (!hours.days.includes(date.getUTCDay())) return undefined;
+  if (hours.holidays.includes(date.toISOString().slice(0, 10))) return undefined;
+  return [
+    zonedTime(day, minutesOfDay(hours.start), hours.timeZone),
+    zonedTime(day, minutesOfDay(hours.end), hours.timeZone),
+  ];
+}
+
+/**
+ * The instant a span of business time starting at `start` runs out.
+ *
+ * @throws Error when the calendar has no working time in the next years.
+ */
+export function addBusinessTime(start: number, durationMs: number, hours: BusinessHoursConfig): number {
+  let remaining = durationMs;
+  let day = calendarDay(start, hours.timeZone);
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++, day += DAY_MINUTES * 60_000) {
+    const period = workingPeriod(day, hours);
+    if (!period) continue;
+    const from = Math.max(period[0], start);
+    if (from >= period[1]) continue;
+    if (from + remaining <= period[1]) return from + remaining;
+    remaining -= period[1] - from;
+  }
+  throw new Error("The business hours calendar has no working time left.");
+}
+
+/**
+ * The policy for a ticket: one for its priority and category, else one for
+ * its priority alone.
+ */
+export function findSlaPolicy(config: AppConfig, ticket: SlaTicket): SlaPolicy | undefined {
+  const { policies } = config.sla;
+  return (
+    policies.find((p) => p.priority === ticket.priority && p.category === ticket.category) ??
+    policies.find((p) => p.priority === ticket.priority && p.category === undefined)
+  );
+}
+
+/** When the team first replied publicly, or the ticket first left its initial status. */
+function firstResponseAt(ticket: SlaTicket): string | undefined {
+  const times = [
+    ticket.comments?.find((c) => c.from === "team" && c.visibility === "public")?.createdAt,
+    ticket.history.find((c) => c.field === "status" && c.from !== null)?.changedAt,
+  ].filter((t): t is string => t !== undefined);
+  return times.sort()[0];
+}
+
+/** When the ticket moved into its current, resolved status. */
+function resolvedAt(ticket: SlaTicket, config: AppConfig): string | undefined {
+  if (!config.sla.resolvedStatuses.includes(ticket.status)) return undefined;
+  return [...ticket.history].reverse().find((c) => c.field === "status" && c.to === ticket.status)
+    ?.changedAt;
+}
+
+function slaClock(
+  config: AppConfig,
+  start: number,
+  targetHours: number,
+  completedAt: string | undefined,
+  now: number,
+): SlaClock {
+  const hours = config.sla.businessHours;
+  const due = addBusinessTime(start, targetHours * HOUR_MS, hours);
+  const clock = { targetHours, dueAt: new Date(due).toISOString() };
+
+  if (completedAt) {
+    return { ...clock, state: Date.parse(completedAt) <= due ? "met" : "missed", completedAt };
+  }
+  if (now >= due) return { ...clock, state: "breached" };
+  const warnAt = addBusinessTime(start, targetHours * HOUR_MS * config.sla.warnAt, hours);
+  return { ...clock, state: now >= warnAt ? "at_risk" : "on_track" };
+}
+
+/**
+ * Work out a ticket's SLA. Resolves to undefined when no policy applies.
+ */
+export function ticketSla(config: AppConfig, ticket: SlaTicket, now = Date.now()): TicketSla | undefined {
+  const policy = findSlaPolicy(config, ticket);
+  if (!policy) return undefined;
+
+  const start = Date.parse(ticket.createdAt);
+  const resolved = resolvedAt(ticket, config);
+  return {
+    policy: policy.category ? `${policy.priority} / ${policy.category}` : policy.priority,
+    ...(policy.firstResponseHours !== undefined && {
+      // Resolving a ticket straight away counts as responding
+      firstResponse: slaClock(config, start, policy.firstResponseHours, firstResponseAt(ticket) ?? resolved, now),
+    }),
+    ...(policy.resolutionHours !== undefined && {
+      resolution: slaClock(config, start, policy.resolutionHours, resolved, now),
+    }),
+  };
+}
+
+const METRICS: SlaMetric[] = ["firstResponse", "resolution"];
+
+/** Whether either of a ticket's SLA clocks is in the given state. */
+export function hasSlaState(config: AppConfig, ticket: SlaTicket, state: SlaState, now = Date.now()): boolean {
+  const sla = ticketSla(config, ticket, now);
+  return METRICS.some((metric) => sla?.[metric]?.state === state);
+}
+
+/**
+ * Background scheduler that escalates tickets at risk of, or in, breach of
+ * their SLA. Escalations are recorded on the ticket, so each one is sent
+ * once even across restarts.
+ */
+export class SlaMonitor {
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+
+  constructor(
+    private config: AppConfig,
+    private store: TicketStore,
+    private outbox: Outbox,
+  ) {}
+
+  /** Use a newer config (and store) from the next check on. */
+  configure(config: AppConfig, store: TicketStore, outbox: Outbox): void {
+    this.config = config;
+    this.store = store;
+    this.outbox = outbox;
+  }
+
+  /** Escalate every open ticket that is at risk or in breach. Resolves to the escalations sent. */
+  async check(now = Date.now()): Promise<SlaEscalation[]> {
+    if (this.checking || this.config.sla.policies.length === 0) return [];
+    this.checking = true;
+    try {
+      const sent: SlaEscalation[] = [];
+      for (const ticket of await this.store.list()) {
+        const sla = ticketSla(this.config, ticket, now);
+        if (!sla) continue;
+
+        for (const metric of METRICS) {
+          const clock = sla[metric];
+          const level =
+            clock?.state === "breached" ? "breach" : clock?.state === "at_risk" ? "warning" : undefined;
+          if (!clock || !level) continue;
+
+          const previous = ticket.slaEscalations ?? [];
+          if (previous.some((e) => e.metric === metric && (e.level === level || e.level === "breach"))) {
+            continue;
+          }
+
+          const escalation: SlaEscalation = {
+            metric,
+            policy: sla.policy,
+            level,
+            dueAt: clock.dueAt,
+            escalatedAt: new Date(now).toISOString(),
+          };
+          const updated = await this.store.update(ticket.id, (t) => {
+            t.slaEscalations = [...(t.slaEscalations ?? []), escalation];
+          });
+          if (!updated) continue;
+          ticket.slaEscalations = updated.slaEscalations;
+
+          await this.outbox.escalate(updated, escalation);
+          sent.push(escalation);
+        }
+      }
+      return sent;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /** Start the background checks. Idempotent. */
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.check().catch((error) => console.error("SLA monitor error:", error));
+    };
+    this.timer = setInterval(tick, this.config.sla.checkIntervalMs);
+    this.timer.unref();
+    tick();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+const openMonitors = new WeakMap<TicketStore, SlaMonitor>();
+
+/**
+ * Return the SLA monitor for a ticket store, one per store like the
+ * outbox, with its background checks running.
+ */
+export function openSlaMonitor(config: AppConfig, store: TicketStore, outbox: Outbox): SlaMonitor {
+  let monitor = openMonitors.get(store);
+  if (monitor) {
+    monitor.configure(config, store, outbox);
+  } else {
+    monitor = new SlaMonitor(config, store, outbox);
+    openMonitors.set(store, monitor);
+  }
+  monitor.start();
+  return monitor;
+}
@@ -2,7 +2,13 @@
  * @file Customer Service MCP App — React UI.
  *
  * Renders a branded support form that submits tickets via the
- * `customer_support` MCP tool and displays confirmation / errors.
+ * `customer_support` MCP tool and displays confirmation / errors, in the
+ * locale and time zone of the host. The arguments of a model's
+ * `customer_support` call prefill the form; in draft mode the ticket is only
+ * sent when the user submits it, through `submit_ticket_draft`. While the
+ * issue is typed, `suggest_triage` proposes a category and priority, and
+ * the form warns about card numbers, passwords and other data the server's
+ * redaction rules would remove or refuse.
  */
 import type { App, McpUiHostContext } from "@modelcontextprotocol/ext-apps";
 import { useApp } from "@modelcontextprotocol/ext-apps/react";
@@ -17,78 +23,158 @@ import {
   type FormEvent,
 } from "react";
 import { createRoot } from "react-dom/client";
+import type { FieldConfig, PublicConfig } from "../config.js";
+import {
+  createTranslator,
+  fieldLabel,
+  fieldPlaceholder,
+  formatDate,
+  isValidTimeZone,
+  optionLabel,
+  resolveLocale,
+  translateEnglish,
+  type Translate,
+  valueLabel,
+} from "../i18n.js";
+import {
+  type AttachmentInput,
+  attachmentRules,
+  base64Size,
+  checkAttachments,
+  fieldStates,
+  formatBytes,
+  validateField,
+} from "../validation.js";
+import { findSensitive } from "../sensitive.js";
+import type { TriageSuggestion } from "../triage.js";
 import styles from "./mcp-app.module.css";
 
 // ── Types ────────────────────────────────────────────────────────────────
 
+interface DeliveryReport {
+  channel: string;
+  /**
+   * "queued" means the server will keep retrying in the background;
+   * "logged" that nothing was sent, as the server has no SMTP settings
+   */
+  status: "delivered" | "logged" | "queued" | "failed";
+  message: string;
+}
+
+
 interface TicketResult {
-  status: "ok" | "error";
+  /** "draft" — nothing sent yet, the form holds the model's proposal */
+  status: "ok" | "error" | "draft";
   message: string;
+  /** Set when the server turned the submission away: flood protection or redaction */
+  code?: "rate_limited" | "spam" | "sensitive_data";
+  retryAfterSeconds?: number;
+  /** The ticket is an earlier one matching this submission */
+  duplicate?: boolean;
+  deliveries?: DeliveryReport[];
+  acknowledgement?: {
+    status: DeliveryReport["status"] | "skipped";
+    to?: string;
+    message: string;
+  };
   ticket?: {
+    id: string;
+    status: string;
     name: string;
     issue: string;
     priority: string;
     category: string;
     timestamp: string;
+    attachments?: string[];
   };
 }
 
-interface FieldDef {
-  key: string;
-  label: string;
-  type: "text" | "email" | "tel" | "textarea" | "select";
-  placeholder: string;
-  required: boolean;
-  options?: string[];
+/** A file picked in the form, ready to send as a tool argument. */
+interface UploadedFile extends AttachmentInput {
+  size: number;
 }
 
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const DELIVERY_ICONS: Record<DeliveryReport["status"], string> = {
+  delivered: "\u2713",
+  logged: "\u2013",
+  queued: "\u21bb",
+  failed: "\u2717",
+};
+
+const REJECTION_TITLES: Record<NonNullable<TicketResult["code"]>, string> = {
+  rate_limited: "result.rateLimited",
+  spam: "result.spam",
+  sensitive_data: "result.sensitiveData",
+};
+
+/** Pause in typing, and length of the issue, before asking for suggestions */
+const TRIAGE_DELAY_MS = 600;
+const TRIAGE_MIN_LENGTH = 15;
+
 /**
- * Default configuration embedded in the client.
- * Teams can customise this block or inject it from the server at build time.
+ * Read the public config the server embeds in the HTML resource, so the
+ * form always matches the tool's schema and any `createServer` overrides.
  */
-const DEFAULT_BRAND = {
-  name: "Customer Support",
-  primaryColor: "#2563eb",
-  secondaryColor: "#1e40af",
-  logoUrl: undefined as string | undefined,
-  tagline: "We're here to help",
-};
+function readPublicConfig(): PublicConfig | null {
+  const el = document.getElementById("app-config");
+  if (!el?.textContent) return null;
+  try {
+    return JSON.parse(el.textContent) as PublicConfig;
+  } catch {
+    return null;
+  }
+}
 
-const DEFAULT_PRIORITIES = ["Low", "Medium", "High", "Urgent"];
-const DEFAULT_CATEGORIES = [
-  "General Inquiry",
-  "Technical Support",
-  "Billing",
-  "Feature Request",
-  "Bug Report",
-];
-
-const DEFAULT_CUSTOM_FIELDS: FieldDef[] = [
-  {
-    key: "email",
-    label: "Email Address",
-    type: "email",
-    placeholder: "you@example.com",
-    required: false,
-  },
-];
+function parseToolResult(result: CallToolResult, t: Translate): TicketResult {
+  const text = result.content?.find((c) => c.type === "text");
+  if (!text) return { status: "error", message: t("result.noResponse") };
+  const raw = (text as { type: "text"; text: string }).text;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Schema validation failures come back as plain text errors
+    if (result.isError) return { status: "error", message: raw };
+    return { status: "error", message: t("result.invalidResponse") };
+  }
+}
 
-// ── Helpers ──────────────────────────────────────────────────────────────
+/** The draft token the server hands the form with a drafted ticket. */
+function draftTokenOf(result: CallToolResult): string | undefined {
+  const token = result._meta?.draftToken;
+  return typeof token === "string" ? token : undefined;
+}
 
-function parseToolResult(result: CallToolResult): TicketResult {
+/** The suggestions in a `suggest_triage` result, if it has any. */
+function triageOf(result: CallToolResult): TriageSuggestion | null {
   const text = result.content?.find((c) => c.type === "text");
-  if (!text) return { status: "error", message: "No response from server." };
+  if (result.isError || !text) return null;
   try {
-    return JSON.parse((text as { type: "text"; text: string }).text);
+    const parsed = JSON.parse((text as { type: "text"; text: string }).text);
+    return parsed.status === "ok" ? (parsed as TriageSuggestion) : null;
   } catch {
-    return { status: "error", message: "Invalid server response." };
+    return null;
   }
 }
 
+/**
+ * Read a file as base64 (without the `data:` URL prefix).
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",", 2)[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 // ── Root component ───────────────────────────────────────────────────────
 
 function CustomerServiceApp() {
   const [toolResult, setToolResult] = useState<CallToolResult | null>(null);
+  const [toolInput, setToolInput] = useState<Record<string, unknown> | null>(null);
   const [hostContext, setHostContext] = useState<McpUiHostContext | undefined>();
 
   const { app, error } = useApp({
@@ -101,6 +187,7 @@ function CustomerServiceApp() {
       };
       app.ontoolinput = async (input) => {
         console.info("Received tool call input:", input);
+        if (input.arguments) setToolInput(input.arguments);
       };
       app.ontoolresult = async (result) => {
         console.info("Received tool call result:", result);
@@ -120,21 +207,33 @@ function CustomerServiceApp() {
     if (app) setHostContext(app.getHostContext());
   }, [app]);
 
+  const config = useMemo(readPublicConfig, []);
+  const locale = config ? resolveLocale(config.i18n, hostContext?.locale) : "en";
+  const t = useMemo(
+    () => (config ? createTranslator(config.i18n, locale) : translateEnglish),
+    [config, locale],
+  );
+
   if (error) return <div><strong>ERROR:</strong> {error.message}</div>;
-  if (!app) return <div className={styles.container}>Connecting...</div>;
+  if (!config) return <div><strong>ERROR:</strong> {t("form.configMissing")}</div>;
+  if (!app) return <div className={styles.container}>{t("form.connecting")}</div>;
 
   return (
     <SupportForm
       app={app}
+      config={config}
       toolResult={toolResult}
+      toolInput={toolInput}
       hostContext={hostContext}
+      locale={locale}
+      t={t}
     />
   );
 }
 
 // ── Server Tools panel ────────────────────────────────────────────────────
 
-function ServerToolsPanel({ app }: { app: App }) {
+function ServerToolsPanel({ app, t }: { app: App; t: Translate }) {
   const [tools, setTools] = useState<Tool[]>([]);
   const [expanded, setExpanded] = useState(false);
   const [loaded, setLoaded] = useState(false);
@@ -171,7 +270,7 @@ function ServerToolsPanel({ app }: { app: App }) {
         onClick={() => setExpanded((v) => !v)}
         aria-expanded={expanded}
       >
-        <span>Server Tools ({tools.length})</span>
+        <span>{t("form.serverTools", { count: tools.length })}</span>
         <span className={styles.toolsChevron} data-expanded={expanded}>
           {"\u25B6"}
         </span>
@@ -197,29 +296,110 @@ function ServerToolsPanel({ app }: { app: App }) {
 
 interface SupportFormProps {
   app: App;
+  config: PublicConfig;
   toolResult: CallToolResult | null;
+  /** Arguments of the model's tool call, used to prefill the form */
+  toolInput: Record<string, unknown> | null;
   hostContext?: McpUiHostContext;
+  /** One of the configured locales, picked from the host's */
+  locale: string;
+  t: Translate;
 }
 
-function SupportForm({ app, toolResult, hostContext }: SupportFormProps) {
+function SupportForm({ app, config, toolResult, toolInput, hostContext, locale, t }: SupportFormProps) {
+  const { brand, priorities, categories, customFields } = config;
+  // Dates show in the host's time zone, else the browser's
+  const timeZone =
+    hostContext?.timeZone && isValidTimeZone(hostContext.timeZone)
+      ? hostContext.timeZone
+      : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
   // Form state
   const [name, setName] = useState("");
   const [issue, setIssue] = useState("");
-  const [priority, setPriority] = useState("Medium");
-  const [category, setCategory] = useState("General Inquiry");
+  const [priority, setPriority] = useState(config.defaultPriority);
+  // Until someone picks a priority it is left to routing rules and the default
+  const [priorityPicked, setPriorityPicked] = useState(false);
+  const [category, setCategory] = useState(config.defaultCategory);
   const [customValues, setCustomValues] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<Record<string, UploadedFile[]>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
   const [result, setResult] = useState<TicketResult | null>(null);
+  const [honeypot, setHoneypot] = useState("");
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<TriageSuggestion | null>(null);
 
-  // Process server-pushed results
+  // Process server-pushed results; a draft leaves the form open for review
   useEffect(() => {
-    if (toolResult) setResult(parseToolResult(toolResult));
-  }, [toolResult]);
+    if (!toolResult) return;
+    setResult(parseToolResult(toolResult, t));
+    setDraftToken(draftTokenOf(toolResult) ?? null);
+  }, [toolResult, t]);
 
-  const brand = DEFAULT_BRAND;
-  const priorities = DEFAULT_PRIORITIES;
-  const categories = DEFAULT_CATEGORIES;
-  const customFields = DEFAULT_CUSTOM_FIELDS;
+  // Prefill the form with what the model put in its tool call
+  useEffect(() => {
+    if (!toolInput) return;
+    const text = (key: string) => (typeof toolInput[key] === "string" ? (toolInput[key] as string) : "");
+    setName(text("name"));
+    setIssue(text("issue"));
+    if (priorities.includes(text("priority"))) {
+      setPriority(text("priority"));
+      setPriorityPicked(true);
+    }
+    if (categories.includes(text("category"))) setCategory(text("category"));
+
+    const values: Record<string, string> = {};
+    const uploads: Record<string, UploadedFile[]> = {};
+    for (const field of customFields) {
+      const value = toolInput[field.key];
+      if (typeof value === "string") values[field.key] = value;
+      if (field.type === "attachment" && Array.isArray(value)) {
+        uploads[field.key] = (value as AttachmentInput[]).map((file) => ({
+          ...file,
+          size: base64Size(file.data),
+        }));
+      }
+    }
+    setCustomValues(values);
+    setFiles(uploads);
+    setErrors({});
+  }, [toolInput, priorities, categories, customFields]);
+
+  // Ask for a category and priority once typing pauses; suggestions are a
+  // nicety, so failures leave the form as it is
+  useEffect(() => {
+    if (!config.triageSuggestions || issue.trim().length < TRIAGE_MIN_LENGTH) {
+      setSuggestion(null);
+      return;
+    }
+    let current = true;
+    const timer = setTimeout(() => {
+      app
+        .callServerTool({ name: "suggest_triage", arguments: { issue } })
+        .then((res) => current && setSuggestion(triageOf(res)))
+        .catch((err) => console.error(err));
+    }, TRIAGE_DELAY_MS);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [app, config.triageSuggestions, issue]);
+
+  // After a rate-limit rejection, keep the submit button disabled until
+  // the server will accept another ticket
+  useEffect(() => {
+    if (result?.retryAfterSeconds) {
+      setBlockedUntil(Date.now() + result.retryAfterSeconds * 1000);
+    }
+  }, [result]);
+
+  useEffect(() => {
+    if (blockedUntil === null) return;
+    const timer = setTimeout(() => setBlockedUntil(null), blockedUntil - Date.now());
+    return () => clearTimeout(timer);
+  }, [blockedUntil]);
 
   // Apply brand colours as CSS custom properties
   const brandStyles = useMemo(
@@ -231,51 +411,226 @@ function SupportForm({ app, toolResult, hostContext }: SupportFormProps) {
     [brand],
   );
 
+  // The custom fields shown for the current answers, each required or not
+  // as its conditions say — the server works this out the same way
+  const activeFields = useMemo(() => {
+    const states = fieldStates(customFields, {
+      category,
+      priority,
+      values: { ...customValues, ...files },
+    });
+    return customFields
+      .filter((field) => states[field.key].visible)
+      .map((field) => ({ ...field, required: states[field.key].required }));
+  }, [customFields, category, priority, customValues, files]);
+
+  // Only suggestions that would change the current choice are offered
+  const offered = (value: string | undefined, options: string[], current: string) =>
+    value && value !== current && options.includes(value) ? value : undefined;
+  const suggestedCategory = offered(suggestion?.category?.value, categories, category);
+  const suggestedPriority = offered(suggestion?.priority?.value, priorities, priority);
+
+  // What the redaction rules would remove or refuse in each text field, so
+  // the user hears about it before submitting
+  const sensitive = useMemo(() => {
+    const found: Record<string, { message: string; rejected: boolean }> = {};
+    if (config.redactionRules.length === 0) return found;
+    const texts: Record<string, string> = { name, issue };
+    for (const field of activeFields) {
+      if (customValues[field.key]) texts[field.key] = customValues[field.key];
+    }
+    for (const [key, text] of Object.entries(texts)) {
+      const findings = findSensitive(config.redactionRules, text);
+      if (findings.length === 0) continue;
+      // Built-in detectors have translated names; custom rules use their own
+      const refused = findings.filter((f) => f.rule.action === "reject");
+      const named = (refused.length > 0 ? refused : findings).map((f) =>
+        t(`redaction.${f.rule.detect}`, undefined, f.rule.name),
+      );
+      const what = [...new Set(named)].join(", ");
+      found[key] = {
+        message: t(refused.length > 0 ? "redaction.rejected" : "redaction.removed", { what }),
+        rejected: refused.length > 0,
+      };
+    }
+    return found;
+  }, [config, name, issue, activeFields, customValues, t]);
+
+  // Validate every field with the same rules the server's schema enforces
+  const validateForm = useCallback(() => {
+    const found: Record<string, string> = {};
+    if (!name.trim()) found.name = t("validation.required", { label: t("ticket.name") });
+    if (!issue.trim()) found.issue = t("validation.required", { label: t("ticket.issue") });
+    for (const field of activeFields) {
+      const message =
+        field.type === "attachment"
+          ? checkAttachments(field, files[field.key] ?? [], t)
+          : validateField(field, customValues[field.key] ?? "", t);
+      if (message) found[field.key] = message;
+    }
+    for (const [key, { message, rejected }] of Object.entries(sensitive)) {
+      if (rejected && !found[key]) found[key] = message;
+    }
+    return found;
+  }, [name, issue, activeFields, customValues, files, sensitive, t]);
+
+  // A field's redaction notice, unless it already shows an error
+  const sensitiveNotice = (key: string) =>
+    sensitive[key] && !errors[key] ? (
+      <p className={sensitive[key].rejected ? styles.fieldError : styles.fieldWarning} role="status">
+        {sensitive[key].message}
+      </p>
+    ) : null;
+
+  const clearError = useCallback((key: string) => {
+    setErrors((prev) => {
+      if (!prev[key]) return prev;
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Once a field shows an error, re-check it on every change
+  const setCustomValue = useCallback((field: FieldConfig, value: string) => {
+    setCustomValues((prev) => ({ ...prev, [field.key]: value }));
+    setErrors((prev) => {
+      if (!prev[field.key]) return prev;
+      const { [field.key]: _, ...rest } = prev;
+      const message = validateField(field, value, t);
+      return message ? { ...rest, [field.key]: message } : rest;
+    });
+  }, [t]);
+
+  // Check picked files against the field's limits before reading them
+  const addFiles = useCallback(
+    async (field: FieldConfig, picked: FileList | null) => {
+      if (!picked || picked.length === 0) return;
+      const current = files[field.key] ?? [];
+      const incoming = Array.from(picked).map((file) => ({
+        file,
+        filename: file.name,
+        mimeType: file.type || "application/octet-stream",
+        size: file.size,
+      }));
+
+      const message = checkAttachments(field, [...current, ...incoming], t);
+      if (message) {
+        setErrors((prev) => ({ ...prev, [field.key]: message }));
+        return;
+      }
+
+      try {
+        const uploaded = await Promise.all(
+          incoming.map(async ({ file, ...info }) => ({
+            ...info,
+            data: await readFileAsBase64(file),
+          })),
+        );
+        setFiles((prev) => ({ ...prev, [field.key]: [...(prev[field.key] ?? []), ...uploaded] }));
+        clearError(field.key);
+      } catch (err) {
+        console.error(err);
+        setErrors((prev) => ({ ...prev, [field.key]: t("form.readError") }));
+      }
+    },
+    [files, clearError, t],
+  );
+
+  const removeFile = useCallback((field: FieldConfig, index: number) => {
+    setFiles((prev) => ({
+      ...prev,
+      [field.key]: (prev[field.key] ?? []).filter((_, i) => i !== index),
+    }));
+    clearError(field.key);
+  }, [clearError]);
+
   const handleSubmit = useCallback(
     async (e: FormEvent) => {
       e.preventDefault();
+      const found = validateForm();
+      setErrors(found);
+      if (Object.keys(found).length > 0) return;
+
       setSubmitting(true);
       setResult(null);
 
       try {
-        const args: Record<string, string> = {
-          name,
-          issue,
-          priority,
+        // Leave out empty optional fields rather than sending "", and hidden
+        // fields, whose answers are kept in case they are shown again
+        const shown = new Set(activeFields.map((field) => field.key));
+        const filled = Object.entries(customValues)
+          .map(([key, value]) => [key, value.trim()])
+          .filter(([key, value]) => value !== "" && shown.has(key));
+
+        const attachments = Object.entries(files)
+          .filter(([key, list]) => list.length > 0 && shown.has(key))
+          .map(([key, list]) => [
+            key,
+            list.map(({ filename, mimeType, data }) => ({ filename, mimeType, data })),
+          ]);
+
+        const args: Record<string, unknown> = {
+          name: name.trim(),
+          issue: issue.trim(),
+          ...(priorityPicked && { priority }),
           category,
-          ...customValues,
+          ...Object.fromEntries(filled),
+          ...Object.fromEntries(attachments),
+          // Emails to the submitter use their language and time zone
+          locale,
+          timeZone,
         };
 
-        const callResult = await app.callServerTool({
-          name: "customer_support",
-          arguments: args,
-        });
+        // The spam trap travels outside the arguments, which the model sees too
+        const _meta = config.honeypotField && honeypot ? { honeypot } : undefined;
+
+        // In draft mode customer_support only drafts the ticket; pressing
+        // Submit is the user's confirmation, so send the draft straight on
+        let callResult = draftToken
+          ? null
+          : await app.callServerTool({ name: "customer_support", arguments: args, _meta });
+        const token = callResult ? draftTokenOf(callResult) : draftToken;
+        if (token) {
+          callResult = await app.callServerTool({
+            name: "submit_ticket_draft",
+            arguments: { draftToken: token, ...args },
+            _meta,
+          });
+          // A rejected draft stays open for another try
+          setDraftToken(callResult.isError ? token : null);
+        }
 
-        setResult(parseToolResult(callResult));
+        if (callResult) setResult(parseToolResult(callResult, t));
       } catch (err) {
         console.error(err);
         setResult({
           status: "error",
-          message: err instanceof Error ? err.message : "Submission failed.",
+          message: err instanceof Error ? err.message : t("result.failed"),
         });
       } finally {
         setSubmitting(false);
       }
     },
-    [app, name, issue, priority, category, customValues],
+    [app, config, name, issue, priority, priorityPicked, category, customValues, files, activeFields, honeypot, validateForm, locale, timeZone, draftToken, t],
   );
 
   const handleReset = useCallback(() => {
     setName("");
     setIssue("");
-    setPriority("Medium");
-    setCategory("General Inquiry");
+    setPriority(config.defaultPriority);
+    setPriorityPicked(false);
+    setCategory(config.defaultCategory);
     setCustomValues({});
+    setFiles({});
+    setErrors({});
+    setHoneypot("");
     setResult(null);
-  }, []);
+    setDraftToken(null);
+  }, [config]);
 
   return (
     <main
+      lang={locale}
       className={styles.container}
       style={{
         ...brandStyles,
@@ -297,78 +652,167 @@ function SupportForm({ app, toolResult, hostContext }: SupportFormProps) {
       {/* ── Success / confirmation ─────────────────────────────────── */}
       {result?.status === "ok" && result.ticket ? (
         <>
-          <div className={styles.statusSuccess}>{result.message}</div>
+          <div className={result.duplicate ? styles.statusInfo : styles.statusSuccess}>
+            {result.duplicate
+              ? t("result.duplicate", {
+                  id: result.ticket.id,
+                  date: formatDate(result.ticket.timestamp, locale, timeZone),
+                })
+              : t("result.submitted", { id: result.ticket.id })}
+          </div>
+          {result.acknowledgement?.status === "delivered" && (
+            <p className={styles.fieldHint}>{result.acknowledgement.message}</p>
+          )}
+          {result.acknowledgement?.status === "queued" && (
+            <p className={styles.fieldHint}>
+              {t("result.ackQueued", { to: result.acknowledgement.to })}
+            </p>
+          )}
 
           <div className={styles.ticket}>
-            <p className={styles.ticketTitle}>Ticket Summary</p>
+            <p className={styles.ticketTitle}>{t("result.summary")}</p>
             <div className={styles.ticketDetail}>
-              <p><strong>Name:</strong> {result.ticket.name}</p>
-              <p><strong>Issue:</strong> {result.ticket.issue}</p>
-              <p><strong>Priority:</strong> {result.ticket.priority}</p>
-              <p><strong>Category:</strong> {result.ticket.category}</p>
-              <p><strong>Submitted:</strong> {new Date(result.ticket.timestamp).toLocaleString()}</p>
+              <p><strong>{t("ticket.id")}:</strong> {result.ticket.id}</p>
+              <p><strong>{t("ticket.status")}:</strong> {valueLabel(t, "status", result.ticket.status)}</p>
+              <p><strong>{t("ticket.name")}:</strong> {result.ticket.name}</p>
+              <p><strong>{t("ticket.issue")}:</strong> {result.ticket.issue}</p>
+              <p><strong>{t("ticket.priority")}:</strong> {valueLabel(t, "priority", result.ticket.priority)}</p>
+              <p><strong>{t("ticket.category")}:</strong> {valueLabel(t, "category", result.ticket.category)}</p>
+              {result.ticket.attachments && result.ticket.attachments.length > 0 && (
+                <p><strong>{t("ticket.attachments")}:</strong> {result.ticket.attachments.join(", ")}</p>
+              )}
+              <p>
+                <strong>{t("ticket.submitted")}:</strong>{" "}
+                {formatDate(result.ticket.timestamp, locale, timeZone)}
+              </p>
             </div>
+            {result.deliveries && result.deliveries.length > 0 && (
+              <ul className={styles.deliveryList}>
+                {result.deliveries.map((d) => (
+                  <li key={d.channel} data-status={d.status} title={d.message}>
+                    {DELIVERY_ICONS[d.status]} {d.channel}
+                    {d.status === "queued" && ` ${t("result.queuedForRetry")}`}
+                    {d.status === "logged" && ` ${t("result.previewLogged")}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <button className={styles.submitButton} onClick={handleReset}>
-            Submit Another Ticket
+            {t("form.submitAnother")}
           </button>
         </>
       ) : (
         /* ── Form ────────────────────────────────────────────────── */
-        <form className={styles.form} onSubmit={handleSubmit}>
+        <form className={styles.form} onSubmit={handleSubmit} noValidate>
+          {/* Drafted by the model — nothing is sent until the user submits */}
+          {result?.status === "draft" && (
+            <div className={styles.statusInfo} role="status">
+              {t("form.draftNotice")}
+            </div>
+          )}
+
           {/* Name */}
           <div className={styles.fieldGroup}>
             <label className={styles.label} htmlFor="cs-name">
-              Name <span className={styles.required}>*</span>
+              {t("ticket.name")} <span className={styles.required}>*</span>
             </label>
             <input
               id="cs-name"
               className={styles.input}
               type="text"
-              placeholder="Your full name"
+              placeholder={t("form.namePlaceholder")}
               required
+              aria-invalid={!!errors.name}
               value={name}
-              onChange={(e) => setName(e.target.value)}
+              onChange={(e) => {
+                setName(e.target.value);
+                if (e.target.value.trim()) clearError("name");
+              }}
             />
+            {errors.name && <p className={styles.fieldError}>{errors.name}</p>}
+            {sensitiveNotice("name")}
           </div>
 
           {/* Issue */}
           <div className={styles.fieldGroup}>
             <label className={styles.label} htmlFor="cs-issue">
-              Issue <span className={styles.required}>*</span>
+              {t("ticket.issue")} <span className={styles.required}>*</span>
             </label>
             <textarea
               id="cs-issue"
               className={styles.textarea}
-              placeholder="Describe your issue in detail..."
+              placeholder={t("form.issuePlaceholder")}
               required
+              aria-invalid={!!errors.issue}
               value={issue}
-              onChange={(e) => setIssue(e.target.value)}
+              onChange={(e) => {
+                setIssue(e.target.value);
+                if (e.target.value.trim()) clearError("issue");
+              }}
             />
+            {errors.issue && <p className={styles.fieldError}>{errors.issue}</p>}
+            {sensitiveNotice("issue")}
+            {suggestedCategory || suggestedPriority || suggestion?.tags.length ? (
+              <p className={styles.suggestions} aria-live="polite">
+                {t("form.suggested")}
+                {suggestedCategory && (
+                  <button
+                    type="button"
+                    className={styles.suggestionChip}
+                    title={t("form.applySuggestion")}
+                    onClick={() => setCategory(suggestedCategory)}
+                  >
+                    {valueLabel(t, "category", suggestedCategory)}
+                  </button>
+                )}
+                {suggestedPriority && (
+                  <button
+                    type="button"
+                    className={styles.suggestionChip}
+                    title={t("form.applySuggestion")}
+                    onClick={() => {
+                      setPriority(suggestedPriority);
+                      setPriorityPicked(true);
+                    }}
+                  >
+                    {valueLabel(t, "priority", suggestedPriority)}
+                  </button>
+                )}
+                {suggestion?.tags.map((tag) => (
+                  <span key={tag} className={styles.suggestionTag} title={t("form.suggestedTag")}>
+                    #{tag}
+                  </span>
+                ))}
+              </p>
+            ) : null}
           </div>
 
           {/* Priority + Category row */}
           <div className={styles.row}>
             <div className={styles.fieldGroup}>
               <label className={styles.label} htmlFor="cs-priority">
-                Priority
+                {t("ticket.priority")}
               </label>
               <select
                 id="cs-priority"
                 className={styles.select}
                 value={priority}
-                onChange={(e) => setPriority(e.target.value)}
+                onChange={(e) => {
+                  setPriority(e.target.value);
+                  setPriorityPicked(true);
+                }}
               >
                 {priorities.map((p) => (
-                  <option key={p} value={p}>{p}</option>
+                  <option key={p} value={p}>{valueLabel(t, "priority", p)}</option>
                 ))}
               </select>
             </div>
 
             <div className={styles.fieldGroup}>
               <label className={styles.label} htmlFor="cs-category">
-                Category
+                {t("ticket.category")}
               </label>
               <select
                 id="cs-category"
@@ -377,44 +821,81 @@ function SupportForm({ app, toolResult, hostContext }: SupportFormProps) {
                 onChange={(e) => setCategory(e.target.value)}
               >
                 {categories.map((c) => (
-                  <option key={c} value={c}>{c}</option>
+                  <option key={c} value={c}>{valueLabel(t, "category", c)}</option>
                 ))}
               </select>
             </div>
           </div>
 
           {/* Custom fields */}
-          {customFields.map((field) => (
+          {activeFields.map((field) => (
             <div key={field.key} className={styles.fieldGroup}>
               <label className={styles.label} htmlFor={`cs-${field.key}`}>
-                {field.label}
+                {fieldLabel(t, field)}
                 {field.required && <span className={styles.required}>*</span>}
               </label>
 
-              {field.type === "textarea" ? (
+              {field.type === "attachment" ? (
+                <>
+                  <input
+                    id={`cs-${field.key}`}
+                    className={styles.fileInput}
+                    type="file"
+                    multiple={attachmentRules(field).maxFiles > 1}
+                    accept={attachmentRules(field).allowedTypes.join(",") || undefined}
+                    aria-invalid={!!errors[field.key]}
+                    onChange={(e) => {
+                      void addFiles(field, e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                  <p className={styles.fieldHint}>
+                    {t("form.attachmentLimits", {
+                      hint: fieldPlaceholder(t, field),
+                      count: attachmentRules(field).maxFiles,
+                      size: formatBytes(attachmentRules(field).maxSizeBytes),
+                    })}
+                  </p>
+                  {(files[field.key] ?? []).length > 0 && (
+                    <ul className={styles.fileList}>
+                      {files[field.key].map((file, i) => (
+                        <li key={`${file.filename}-${i}`}>
+                          <span>{file.filename} ({formatBytes(file.size)})</span>
+                          <button
+                            type="button"
+                            className={styles.fileRemove}
+                            onClick={() => removeFile(field, i)}
+                            aria-label={t("form.removeFile", { filename: file.filename })}
+                          >
+                            {"\u2715"}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : field.type === "textarea" ? (
                 <textarea
                   id={`cs-${field.key}`}
                   className={styles.textarea}
-                  placeholder={field.placeholder}
+                  placeholder={fieldPlaceholder(t, field)}
                   required={field.required}
+                  aria-invalid={!!errors[field.key]}
                   value={customValues[field.key] ?? ""}
-                  onChange={(e) =>
-                    setCustomValues((prev) => ({ ...prev, [field.key]: e.target.value }))
-                  }
+                  onChange={(e) => setCustomValue(field, e.target.value)}
                 />
               ) : field.type === "select" ? (
                 <select
                   id={`cs-${field.key}`}
                   className={styles.select}
                   required={field.required}
+                  aria-invalid={!!errors[field.key]}
                   value={customValues[field.key] ?? ""}
-                  onChange={(e) =>
-                    setCustomValues((prev) => ({ ...prev, [field.key]: e.target.value }))
-                  }
+                  onChange={(e) => setCustomValue(field, e.target.value)}
                 >
-                  <option value="">{field.placeholder}</option>
+                  <option value="">{fieldPlaceholder(t, field)}</option>
                   {field.options?.map((o) => (
-                    <option key={o} value={o}>{o}</option>
+                    <option key={o} value={o}>{optionLabel(t, field, o)}</option>
                   ))}
                 </select>
               ) : (
@@ -422,38 +903,62 @@ function SupportForm({ app, toolResult, hostContext }: SupportFormProps) {
                   id={`cs-${field.key}`}
                   className={styles.input}
                   type={field.type}
-                  placeholder={field.placeholder}
+                  placeholder={fieldPlaceholder(t, field)}
                   required={field.required}
+                  min={field.validation?.min}
+                  max={field.validation?.max}
+                  maxLength={field.validation?.maxLength}
+                  aria-invalid={!!errors[field.key]}
                   value={customValues[field.key] ?? ""}
-                  onChange={(e) =>
-                    setCustomValues((prev) => ({ ...prev, [field.key]: e.target.value }))
-                  }
+                  onChange={(e) => setCustomValue(field, e.target.value)}
                 />
               )}
+              {errors[field.key] && (
+                <p className={styles.fieldError}>{errors[field.key]}</p>
+              )}
+              {sensitiveNotice(field.key)}
             </div>
           ))}
 
+          {/* Spam trap — hidden from people and assistive technology */}
+          {config.honeypotField && (
+            <div className={styles.honeypot} aria-hidden="true">
+              <label htmlFor="cs-honeypot">{t("form.honeypot")}</label>
+              <input
+                id="cs-honeypot"
+                type="text"
+                tabIndex={-1}
+                autoComplete="off"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Error message */}
           {result?.status === "error" && (
-            <div className={styles.statusError}>{result.message}</div>
+            <div className={styles.statusError} role="alert">
+              {result.code && <strong>{t(REJECTION_TITLES[result.code])}</strong>}
+              {result.message}
+            </div>
           )}
 
           {/* Submit */}
           <button
             type="submit"
             className={styles.submitButton}
-            disabled={submitting}
+            disabled={submitting || blockedUntil !== null}
           >
-            {submitting ? "Submitting..." : "Submit Ticket"}
+            {submitting ? t("form.submitting") : t("form.submit")}
           </button>
         </form>
       )}
 
       {/* ── Available server tools ─────────────────────────────────── */}
-      <ServerToolsPanel app={app} />
+      <ServerToolsPanel app={app} t={t} />
 
       <footer className={styles.footer}>
-        Powered by {brand.name}
+        {t("form.poweredBy", { brand: brand.name })}
       </footer>
     </main>
   );
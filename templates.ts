@@ -0,0 +1,498 @@
+/**
+ * @file Email templates rendered with Handlebars.
+ *
+ * Subject, plain-text and HTML bodies are all templates. They can reference
+ * any ticket field, custom field, the brand and the submission time, use
+ * `{{#if}}` / `{{#each}}`, be loaded from files, and be overridden per
+ * category via `AppConfig.emailTemplates.categories`. The acknowledgement
+ * and replies sent to the customer are rendered the same way, as are the
+ * built-in comment and SLA escalation notices for the team.
+ *
+ * `{{t "key" name=value}}` looks a message up in the catalog of the email's
+ * locale: the submitter's for email to them, `i18n.defaultLocale` for email
+ * to the team. `{{date value}}` formats a timestamp for that locale.
+ */
+import Handlebars from "handlebars";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AppConfig, EmailTemplateSet, TemplateSource } from "./config.js";
+import {
+  createTranslator,
+  fieldLabel,
+  formatDate,
+  optionLabel,
+  resolveLocale,
+  valueLabel,
+  type MessageParams,
+  type Translate,
+} from "./i18n.js";
+import type { SlaEscalation, Ticket, TicketComment } from "./tickets.js";
+import { formatBytes } from "./validation.js";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const DEFAULT_TEXT_TEMPLATE = `{{t "email.received" brand=brand.name}}
+
+--- {{t "email.details"}} ---
+
+{{t "ticket.id"}}: {{ticketId}}
+{{t "ticket.name"}}: {{name}}
+{{t "ticket.issue"}}: {{issue}}
+{{t "ticket.priority"}}: {{priorityLabel}}
+{{t "ticket.category"}}: {{categoryLabel}}
+{{#if tags.length}}
+{{t "ticket.tags"}}: {{#each tags}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
+{{#each fields}}
+{{label}}: {{value}}
+{{/each}}
+{{#if attachments.length}}
+
+{{t "ticket.attachments"}}:
+{{#each attachments}}
+- {{filename}} ({{mimeType}}, {{sizeLabel}})
+{{/each}}
+{{/if}}
+
+--- {{t "email.end"}} ---`;
+
+const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:{{brand.primaryColor}};padding:20px 24px;color:#ffffff;">
+        {{#if brand.logoUrl}}<img src="{{brand.logoUrl}}" alt="{{brand.name}}" height="32" style="display:block;margin-bottom:8px;">{{/if}}
+        <div style="font-size:18px;font-weight:bold;">{{brand.name}}</div>
+        <div style="font-size:13px;opacity:0.85;">{{t "email.header" id=ticketId}}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;font-size:14px;line-height:1.6;">
+          <tr><td style="width:140px;color:#6b7280;">{{t "ticket.name"}}</td><td>{{name}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.priority"}}</td><td>{{priorityLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.category"}}</td><td>{{categoryLabel}}</td></tr>
+          {{#if tags.length}}
+          <tr><td style="color:#6b7280;">{{t "ticket.tags"}}</td><td>{{#each tags}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}</td></tr>
+          {{/if}}
+          {{#each fields}}
+          <tr><td style="color:#6b7280;">{{label}}</td><td>{{value}}</td></tr>
+          {{/each}}
+        </table>
+        <h3 style="margin:20px 0 8px;font-size:14px;color:{{brand.secondaryColor}};">{{t "ticket.issue"}}</h3>
+        <div style="white-space:pre-wrap;font-size:14px;line-height:1.6;">{{issue}}</div>
+        {{#if attachments.length}}
+        <h3 style="margin:20px 0 8px;font-size:14px;color:{{brand.secondaryColor}};">{{t "ticket.attachments"}}</h3>
+        <ul style="margin:0;padding-left:20px;font-size:14px;">
+          {{#each attachments}}<li>{{filename}} ({{sizeLabel}})</li>{{/each}}
+        </ul>
+        {{/if}}
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:12px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#9ca3af;">
+        {{t "email.footer" date=(date timestamp) brand=brand.name}}
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+const DEFAULT_ACK_TEXT_TEMPLATE = `{{t "ack.greeting" name=name}}
+
+{{t "ack.thanks" brand=brand.name id=ticketId}}
+
+{{t "ack.responseTime" time=responseTime}}
+
+--- {{t "ack.summary"}} ---
+
+{{t "ticket.issue"}}: {{issue}}
+{{t "ticket.priority"}}: {{priorityLabel}}
+{{t "ticket.category"}}: {{categoryLabel}}
+{{#each fields}}
+{{label}}: {{value}}
+{{/each}}
+{{#if attachments.length}}
+{{t "ticket.attachments"}}: {{#each attachments}}{{filename}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
+
+— {{brand.name}}`;
+
+const DEFAULT_ACK_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:{{brand.primaryColor}};padding:20px 24px;color:#ffffff;">
+        {{#if brand.logoUrl}}<img src="{{brand.logoUrl}}" alt="{{brand.name}}" height="32" style="display:block;margin-bottom:8px;">{{/if}}
+        <div style="font-size:18px;font-weight:bold;">{{brand.name}}</div>
+        <div style="font-size:13px;opacity:0.85;">{{brand.tagline}}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;font-size:14px;line-height:1.6;">
+        <p style="margin:0 0 12px;">{{t "ack.greeting" name=name}}</p>
+        <p style="margin:0 0 12px;">{{t "ack.thanks" brand=brand.name id=ticketId}}</p>
+        <p style="margin:0 0 20px;">{{t "ack.responseTime" time=responseTime}}</p>
+        <h3 style="margin:0 0 8px;font-size:14px;color:{{brand.secondaryColor}};">{{t "ack.summary"}}</h3>
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;">
+          <tr><td style="width:140px;color:#6b7280;">{{t "ticket.priority"}}</td><td>{{priorityLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.category"}}</td><td>{{categoryLabel}}</td></tr>
+          {{#each fields}}
+          <tr><td style="color:#6b7280;">{{label}}</td><td>{{value}}</td></tr>
+          {{/each}}
+          {{#if attachments.length}}
+          <tr><td style="color:#6b7280;">{{t "ticket.attachments"}}</td><td>{{#each attachments}}{{filename}}{{#unless @last}}, {{/unless}}{{/each}}</td></tr>
+          {{/if}}
+        </table>
+        <div style="margin-top:12px;padding:12px;background:#f9fafb;border-radius:6px;white-space:pre-wrap;">{{issue}}</div>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+const DEFAULT_REPLY_TEXT_TEMPLATE = `{{t "ack.greeting" name=name}}
+
+{{t "reply.intro" author=comment.author brand=brand.name id=ticketId}}
+
+{{comment.body}}
+
+{{t "reply.keepId" id=ticketId}}
+
+— {{brand.name}}`;
+
+const DEFAULT_REPLY_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:{{brand.primaryColor}};padding:20px 24px;color:#ffffff;">
+        {{#if brand.logoUrl}}<img src="{{brand.logoUrl}}" alt="{{brand.name}}" height="32" style="display:block;margin-bottom:8px;">{{/if}}
+        <div style="font-size:18px;font-weight:bold;">{{brand.name}}</div>
+        <div style="font-size:13px;opacity:0.85;">{{ticketId}}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;font-size:14px;line-height:1.6;">
+        <p style="margin:0 0 12px;">{{t "ack.greeting" name=name}}</p>
+        <p style="margin:0 0 12px;">{{t "reply.intro" author=comment.author brand=brand.name id=ticketId}}</p>
+        <div style="margin:0 0 20px;padding:12px;background:#f9fafb;border-left:3px solid {{brand.primaryColor}};border-radius:6px;white-space:pre-wrap;">{{comment.body}}</div>
+        <p style="margin:0;color:#6b7280;">{{t "reply.keepId" id=ticketId}}</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+const COMMENT_SUBJECT_TEMPLATE = 'Re: [{{ticketId}}] {{t "comment.subject" author=comment.author}}';
+
+const COMMENT_TEXT_TEMPLATE = `{{t "comment.intro" author=comment.author id=ticketId}}
+
+{{comment.body}}
+
+{{t "ticket.status"}}: {{statusLabel}}
+{{t "ticket.assignee"}}: {{#if assignee}}{{assignee}}{{else}}{{t "ticket.unassigned"}}{{/if}}
+{{t "ticket.originalIssue"}}: {{issue}}`;
+
+const COMMENT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:{{brand.primaryColor}};padding:20px 24px;color:#ffffff;">
+        <div style="font-size:18px;font-weight:bold;">{{t "comment.header" id=ticketId}}</div>
+        <div style="font-size:13px;opacity:0.85;">{{t "comment.from" author=comment.author}}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;font-size:14px;line-height:1.6;">
+        <div style="padding:12px;background:#f9fafb;border-radius:6px;white-space:pre-wrap;">{{comment.body}}</div>
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;margin-top:16px;">
+          <tr><td style="width:140px;color:#6b7280;">{{t "ticket.status"}}</td><td>{{statusLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.assignee"}}</td><td>{{#if assignee}}{{assignee}}{{else}}{{t "ticket.unassigned"}}{{/if}}</td></tr>
+        </table>
+        <h3 style="margin:20px 0 8px;font-size:14px;color:{{brand.secondaryColor}};">{{t "ticket.originalIssue"}}</h3>
+        <div style="white-space:pre-wrap;">{{issue}}</div>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+const ESCALATION_SUBJECT_TEMPLATE =
+  '[{{levelLabel}}] {{ticketId}}: {{t "escalation.due" metric=metricLabel date=(date dueAt)}}';
+
+const ESCALATION_TEXT_TEMPLATE = `{{#if (eq level "breach")}}{{t "escalation.missed" id=ticketId metric=metricLabel}}{{else}}{{t "escalation.atRisk" id=ticketId metric=metricLabel}}{{/if}}
+
+{{t "escalation.dueLabel"}}: {{date dueAt}}
+{{t "escalation.policy"}}: {{policy}}
+{{t "ticket.status"}}: {{statusLabel}}
+{{t "ticket.assignee"}}: {{#if assignee}}{{assignee}}{{else}}{{t "ticket.unassigned"}}{{/if}}
+{{t "ticket.priority"}}: {{priorityLabel}}
+{{t "ticket.category"}}: {{categoryLabel}}
+{{t "ticket.submitted"}}: {{t "escalation.submittedBy" date=(date timestamp) name=name}}
+
+{{t "ticket.issue"}}: {{issue}}`;
+
+const ESCALATION_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#1f2937;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <tr>
+      <td style="background:{{#if (eq level "breach")}}#dc2626{{else}}#d97706{{/if}};padding:20px 24px;color:#ffffff;">
+        <div style="font-size:18px;font-weight:bold;">{{levelLabel}}: {{ticketId}}</div>
+        <div style="font-size:13px;opacity:0.85;">{{t "escalation.due" metric=metricLabel date=(date dueAt)}}</div>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:24px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;font-size:14px;line-height:1.6;">
+          <tr><td style="width:140px;color:#6b7280;">{{t "escalation.policy"}}</td><td>{{policy}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.status"}}</td><td>{{statusLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.assignee"}}</td><td>{{#if assignee}}{{assignee}}{{else}}{{t "ticket.unassigned"}}{{/if}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.priority"}}</td><td>{{priorityLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.category"}}</td><td>{{categoryLabel}}</td></tr>
+          <tr><td style="color:#6b7280;">{{t "ticket.submitted"}}</td><td>{{t "escalation.submittedBy" date=(date timestamp) name=name}}</td></tr>
+        </table>
+        <div style="margin-top:12px;padding:12px;background:#f9fafb;border-radius:6px;white-space:pre-wrap;font-size:14px;">{{issue}}</div>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+const handlebars = Handlebars.create();
+
+/** What the helpers read from the root of every template context. */
+interface LocaleContext {
+  locale: string;
+  timeZone: string;
+  translate: Translate;
+}
+
+handlebars.registerHelper("eq", (a: unknown, b: unknown) => a === b);
+handlebars.registerHelper("t", (key: string, options: Handlebars.HelperOptions) => {
+  const root = options.data.root as LocaleContext;
+  return root.translate(key, options.hash as MessageParams);
+});
+handlebars.registerHelper("date", (value: unknown, options: Handlebars.HelperOptions) => {
+  const root = options.data.root as LocaleContext;
+  return typeof value === "string" ? formatDate(value, root.locale, root.timeZone) : "";
+});
+
+const compiled = new Map<string, Handlebars.TemplateDelegate>();
+
+/**
+ * Compile a template, reusing earlier compilations of the same source.
+ * Subject and text templates are not HTML-escaped.
+ */
+function compile(source: string, escape: boolean): Handlebars.TemplateDelegate {
+  const key = `${escape ? "html" : "text"}:${source}`;
+  let template = compiled.get(key);
+  if (!template) {
+    template = handlebars.compile(source, { noEscape: !escape });
+    compiled.set(key, template);
+  }
+  return template;
+}
+
+/** Resolve a template source to its text, reading it from disk if needed. */
+async function loadTemplate(source: TemplateSource): Promise<string> {
+  if (typeof source === "string") return source;
+  return fs.readFile(path.resolve(source.file), "utf-8");
+}
+
+/** The locale and time zone of email to a ticket's submitter. */
+export function submitterLocale(ticket: Ticket, config: AppConfig): { locale: string; timeZone: string } {
+  return {
+    locale: resolveLocale(config.i18n, ticket.locale),
+    timeZone: ticket.timeZone ?? config.i18n.timeZone,
+  };
+}
+
+/**
+ * The values templates can reference. Custom field values are available
+ * both by key (`{{orderId}}`) and as a labelled list (`{{#each fields}}`).
+ * Priority, category, status, field labels and select options are also
+ * given translated (`{{priorityLabel}}`). Without a locale, the team's is
+ * used.
+ */
+export function buildTemplateContext(
+  ticket: Ticket,
+  config: AppConfig,
+  { locale, timeZone } = { locale: config.i18n.defaultLocale, timeZone: config.i18n.timeZone },
+) {
+  const t = createTranslator(config.i18n, locale);
+  const context: LocaleContext = { locale, timeZone, translate: t };
+
+  return {
+    ...ticket.customFields,
+    ...context,
+    ticketId: ticket.id,
+    name: ticket.name,
+    issue: ticket.issue,
+    priority: ticket.priority,
+    priorityLabel: valueLabel(t, "priority", ticket.priority),
+    category: ticket.category,
+    categoryLabel: valueLabel(t, "category", ticket.category),
+    status: ticket.status,
+    statusLabel: valueLabel(t, "status", ticket.status),
+    assignee: ticket.assignee,
+    tags: ticket.tags ?? [],
+    timestamp: ticket.createdAt,
+    brand: config.brand,
+    fields: config.customFields
+      .filter((f) => ticket.customFields[f.key])
+      .map((f) => ({
+        key: f.key,
+        label: fieldLabel(t, f),
+        value: f.type === "select" ? optionLabel(t, f, ticket.customFields[f.key]) : ticket.customFields[f.key],
+      })),
+    attachments: ticket.attachments.map(({ blob: _, ...meta }) => ({
+      ...meta,
+      sizeLabel: formatBytes(meta.size),
+    })),
+  };
+}
+
+/**
+ * Load and render one subject / text / HTML template triple.
+ */
+async function renderSet(
+  templates: Required<EmailTemplateSet>,
+  context: object,
+): Promise<RenderedEmail> {
+  const [subject, text, html] = await Promise.all([
+    loadTemplate(templates.subject),
+    loadTemplate(templates.text),
+    loadTemplate(templates.html),
+  ]);
+
+  return {
+    // Subjects are a single line no matter what the template produces
+    subject: compile(subject, false)(context).replace(/\s+/g, " ").trim(),
+    text: compile(text, false)(context),
+    html: compile(html, true)(context),
+  };
+}
+
+/**
+ * Render the subject, plain-text and HTML body for a ticket. Templates for
+ * the ticket's category take precedence over the defaults.
+ */
+export async function renderEmail(
+  ticket: Ticket,
+  config: AppConfig,
+): Promise<RenderedEmail> {
+  const overrides: EmailTemplateSet =
+    config.emailTemplates.categories?.[ticket.category] ?? {};
+
+  return renderSet(
+    {
+      subject: overrides.subject ?? config.emailSubjectTemplate,
+      text: overrides.text ?? config.emailTemplates.text ?? DEFAULT_TEXT_TEMPLATE,
+      html: overrides.html ?? config.emailTemplates.html ?? DEFAULT_HTML_TEMPLATE,
+    },
+    buildTemplateContext(ticket, config),
+  );
+}
+
+/**
+ * Render the acknowledgement sent to the customer. On top of the usual
+ * values, templates can use `{{responseTime}}` — the expected response
+ * time for the ticket's priority.
+ */
+export async function renderAcknowledgement(
+  ticket: Ticket,
+  config: AppConfig,
+): Promise<RenderedEmail> {
+  const ack = config.acknowledgement;
+  const context = buildTemplateContext(ticket, config, submitterLocale(ticket, config));
+
+  return renderSet(
+    {
+      subject: ack.subject,
+      text: ack.text ?? DEFAULT_ACK_TEXT_TEMPLATE,
+      html: ack.html ?? DEFAULT_ACK_HTML_TEMPLATE,
+    },
+    {
+      ...context,
+      responseTime: context.translate(
+        `responseTime.${ticket.priority}`,
+        undefined,
+        ack.responseTimes[ticket.priority] ?? ack.defaultResponseTime,
+      ),
+    },
+  );
+}
+
+/**
+ * Render the email carrying a public team reply to the customer. Templates
+ * can use `{{comment.author}}`, `{{comment.body}}` and the usual values.
+ */
+export async function renderReply(
+  ticket: Ticket,
+  config: AppConfig,
+  comment: TicketComment,
+): Promise<RenderedEmail> {
+  const { replies } = config;
+
+  return renderSet(
+    {
+      subject: replies.subject,
+      text: replies.text ?? DEFAULT_REPLY_TEXT_TEMPLATE,
+      html: replies.html ?? DEFAULT_REPLY_HTML_TEMPLATE,
+    },
+    { ...buildTemplateContext(ticket, config, submitterLocale(ticket, config)), comment },
+  );
+}
+
+/**
+ * Render the email telling the team that the customer added a comment.
+ */
+export async function renderCommentNotice(
+  ticket: Ticket,
+  config: AppConfig,
+  comment: TicketComment,
+): Promise<RenderedEmail> {
+  return renderSet(
+    {
+      subject: COMMENT_SUBJECT_TEMPLATE,
+      text: COMMENT_TEXT_TEMPLATE,
+      html: COMMENT_HTML_TEMPLATE,
+    },
+    { ...buildTemplateContext(ticket, config), comment },
+  );
+}
+
+/**
+ * Render the email warning the team that a ticket is at risk of missing,
+ * or has missed, an SLA target.
+ */
+export async function renderEscalation(
+  ticket: Ticket,
+  config: AppConfig,
+  escalation: SlaEscalation,
+): Promise<RenderedEmail> {
+  const context = buildTemplateContext(ticket, config);
+
+  return renderSet(
+    {
+      subject: ESCALATION_SUBJECT_TEMPLATE,
+      text: ESCALATION_TEXT_TEMPLATE,
+      html: ESCALATION_HTML_TEMPLATE,
+    },
+    {
+      ...context,
+      ...escalation,
+      levelLabel: context.translate(`escalation.${escalation.level}`),
+      metricLabel: context.translate(`sla.${escalation.metric}`),
+    },
+  );
+}
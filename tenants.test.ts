@@ -0,0 +1,104 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AppConfig } from "./config.js";
+import { createServer } from "./server.js";
+import { findTenant, loadTenants } from "./tenants.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "tenants-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function configFile(contents: string): Promise<string> {
+  const file = path.join(dir, "support.yaml");
+  await writeFile(file, contents);
+  return file;
+}
+
+const SHARED = `
+storage: { type: memory, path: ${JSON.stringify(path.join("data", "tenants-test", "tickets.json"))} }
+channels: [{ type: file, path: DELIVERIES }]
+`;
+
+async function connect(config: AppConfig) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(config).connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+  const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "{}");
+}
+
+describe("tenants", () => {
+  it("gives each tenant its own store and outbox under the shared path", async () => {
+    const file = await configFile(`${SHARED.replace("DELIVERIES", JSON.stringify(path.join(dir, "out.jsonl")))}
+tenants:
+  acme: { hosts: [Support.Acme.com], brand: { name: Acme Support } }
+  globex: { storage: { idPrefix: GX } }
+`);
+    const [acme, globex] = await loadTenants(file);
+
+    expect(acme.config.brand.name).toBe("Acme Support");
+    expect(globex.config.brand.name).toBe("Customer Support");
+    expect(acme.config.storage.path).toBe(path.join("data", "tenants-test", "acme", "tickets.json"));
+    expect(globex.config.storage).toMatchObject({
+      type: "memory",
+      path: path.join("data", "tenants-test", "globex", "tickets.json"),
+      idPrefix: "GX",
+    });
+    expect(acme.config.outbox.path).not.toBe(globex.config.outbox.path);
+
+    expect(findTenant([acme, globex], { host: "support.acme.com" })?.id).toBe("acme");
+    expect(findTenant([acme, globex], { id: "globex", host: "support.acme.com" })?.id).toBe("globex");
+    expect(findTenant([acme, globex], { host: "unknown.example.com" })).toBeUndefined();
+  });
+
+  it("never shows one tenant's tickets to another", async () => {
+    const file = await configFile(`${SHARED.replace("DELIVERIES", JSON.stringify(path.join(dir, "out.jsonl")))}
+tenants:
+  north: { storage: { idPrefix: NO } }
+  south: { storage: { idPrefix: SO } }
+`);
+    const [north, south] = await loadTenants(file);
+    const northClient = await connect(north.config);
+    const southClient = await connect(south.config);
+
+    const submitted = await call(northClient, "customer_support", { name: "Ada", issue: "Northern lights are off" });
+    expect(submitted.status).toBe("ok");
+
+    expect((await call(northClient, "list_tickets")).tickets.map((t: { id: string }) => t.id)).toEqual([
+      submitted.ticket.id,
+    ]);
+    expect((await call(southClient, "list_tickets")).tickets).toEqual([]);
+    expect((await call(southClient, "get_ticket", { id: submitted.ticket.id })).status).toBe("error");
+  });
+
+  it("refuses tenants that would share a store or a host", async () => {
+    const file = await configFile(`${SHARED.replace("DELIVERIES", JSON.stringify(path.join(dir, "out.jsonl")))}
+tenants:
+  one: { hosts: [help.example.com], storage: { path: data/shared.json } }
+  two: { hosts: [HELP.example.com], storage: { path: data/shared.json } }
+  Three: {}
+`);
+    const error = await loadTenants(file).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('"help.example.com" is already used by tenant "one"');
+    expect((error as Error).message).toContain('tickets would be shared with tenant "one"');
+    expect((error as Error).message).toContain("tenants.Three: IDs may only use lower-case letters");
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @file Multi-tenant hosting from one server process.
+ *
+ * A config file may list `tenants`, each with its own overrides on top of
+ * the file's shared settings — brand, SMTP, recipient, fields, categories,
+ * ticket store. Requests reach a tenant through `/mcp/<tenant>` or through
+ * a host name listed in its `hosts`. Every tenant gets its own ticket store
+ * and outbox, so one tenant's tools never see another's tickets.
+ */
+import path from "node:path";
+import { type AppConfig, type TenantConfig, createConfig } from "./config.js";
+import { keepRestartOnly, readConfigFile, validateConfig } from "./config-file.js";
+
+export interface Tenant {
+  /** Tenant ID, as used in `/mcp/<id>` */
+  id: string;
+  /** Lower-cased host names routed to this tenant */
+  hosts: string[];
+  config: AppConfig;
+}
+
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Apply a tenant's overrides to the shared settings. Sections are merged
+ * one level deep, like {@link createConfig} does with the defaults; lists
+ * are replaced.
+ */
+function mergeSections(
+  base: Partial<AppConfig>,
+  overrides: Partial<AppConfig>,
+): Partial<AppConfig> {
+  const isSection = (v: unknown): v is object =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = merged[key];
+    merged[key] = isSection(current) && isSection(value) ? { ...current, ...value } : value;
+  }
+  return merged as Partial<AppConfig>;
+}
+
+/** `data/tickets.json` becomes `data/<tenant>/tickets.json`. */
+function tenantPath(shared: string, id: string): string {
+  return path.join(path.dirname(shared), id, path.basename(shared));
+}
+
+/**
+ * Resolve one tenant's full, validated config. Unless the tenant sets its
+ * own paths, its tickets and outbox live in a subdirectory named after it.
+ */
+function buildTenantConfig(
+  id: string,
+  shared: Partial<AppConfig>,
+  tenant: TenantConfig,
+  source: string,
+): AppConfig {
+  const { hosts: _, ...overrides } = tenant;
+  const base = createConfig(shared);
+  const merged = mergeSections(shared, overrides);
+
+  return validateConfig(
+    createConfig({
+      ...merged,
+      storage: {
+        ...base.storage,
+        ...merged.storage,
+        path: tenant.storage?.path ?? tenantPath(base.storage.path, id),
+      },
+      outbox: {
+        ...base.outbox,
+        ...merged.outbox,
+        path: tenant.outbox?.path ?? tenantPath(base.outbox.path, id),
+      },
+    }),
+    `${source} (tenant "${id}")`,
+  );
+}
+
+/**
+ * Read the tenants from a config file. Resolves to an empty list when the
+ * file has no `tenants` section, i.e. the server hosts a single config.
+ * Throws when tenant IDs are malformed or tenants share a host or store.
+ */
+export async function loadTenants(filePath: string): Promise<Tenant[]> {
+  const { tenants = {}, ...shared } = await readConfigFile(filePath);
+
+  const problems: string[] = [];
+  const hostOwners = new Map<string, string>();
+  const storeOwners = new Map<string, string>();
+
+  const result = Object.entries(tenants).map(([id, tenant]) => {
+    if (!TENANT_ID_PATTERN.test(id)) {
+      problems.push(`  - tenants.${id}: IDs may only use lower-case letters, digits and -`);
+    }
+
+    const config = buildTenantConfig(id, shared, tenant ?? {}, filePath);
+    const hosts = (tenant?.hosts ?? []).map((h) => h.toLowerCase());
+
+    for (const host of hosts) {
+      const owner = hostOwners.get(host);
+      if (owner) problems.push(`  - tenants.${id}.hosts: "${host}" is already used by tenant "${owner}"`);
+      hostOwners.set(host, id);
+    }
+    const store = path.resolve(config.storage.path);
+    const owner = storeOwners.get(store);
+    if (owner) {
+      problems.push(`  - tenants.${id}.storage.path: tickets would be shared with tenant "${owner}"`);
+    }
+    storeOwners.set(store, id);
+
+    return { id, hosts, config };
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration in ${filePath}:\n${problems.join("\n")}`);
+  }
+  return result;
+}
+
+/**
+ * Pick the tenant for a request: an explicit tenant ID from the URL wins,
+ * otherwise the host name decides.
+ */
+export function findTenant(
+  tenants: Tenant[],
+  request: { id?: string; host?: string },
+): Tenant | undefined {
+  if (request.id) return tenants.find((t) => t.id === request.id);
+  const host = request.host?.toLowerCase();
+  return host ? tenants.find((t) => t.hosts.includes(host)) : undefined;
+}
+
+/**
+ * Apply a reloaded tenant list. New tenants are added straight away;
+ * existing ones keep their storage and outbox until the next restart.
+ */
+export function reloadTenants(current: Tenant[], next: Tenant[]): Tenant[] {
+  return next.map((tenant) => {
+    const running = current.find((t) => t.id === tenant.id);
+    if (!running) return tenant;
+    return {
+      ...tenant,
+      config: keepRestartOnly(tenant.config, running.config, `Tenant "${tenant.id}"`),
+    };
+  });
+}
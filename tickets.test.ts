@@ -0,0 +1,72 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FileTicketStore, loadAttachments, storeAttachments, type NewTicket } from "./tickets.js";
+
+const screenshot = {
+  field: "attachments",
+  filename: "screenshot.png",
+  mimeType: "image/png",
+  size: 4,
+  data: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString("base64"),
+};
+
+function newTicket(attachments: NewTicket["attachments"]): NewTicket {
+  return {
+    name: "Ada",
+    issue: "The export button does nothing",
+    status: "open",
+    priority: "Medium",
+    category: "Technical Support",
+    customFields: {},
+    attachments,
+  };
+}
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  if (dir) await fs.rm(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe("FileTicketStore attachments", () => {
+  it("keeps file contents out of the tickets document", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tickets-test-"));
+    const file = path.join(dir, "tickets.json");
+    const store = new FileTicketStore(file);
+
+    const ticket = await store.create(newTicket(await storeAttachments(store, [screenshot])));
+    const [attachment] = ticket.attachments;
+    expect(attachment).not.toHaveProperty("data");
+
+    expect(await fs.readFile(file, "utf-8")).not.toContain(screenshot.data);
+    const saved = await fs.readFile(path.join(dir, "tickets-attachments", attachment.blob));
+    expect(saved.toString("base64")).toBe(screenshot.data);
+
+    // A fresh store over the same files, as after a restart
+    const reopened = new FileTicketStore(file);
+    const stored = await reopened.get(ticket.id);
+    expect(await loadAttachments(reopened, stored!.attachments)).toEqual([screenshot]);
+  });
+
+  it("leaves out files whose contents are gone", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tickets-test-"));
+    const store = new FileTicketStore(path.join(dir, "tickets.json"));
+    const [attachment] = await storeAttachments(store, [screenshot]);
+    await fs.rm(path.join(dir, "tickets-attachments", attachment.blob));
+
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await loadAttachments(store, [attachment])).toEqual([]);
+    expect(errorLog).toHaveBeenCalledOnce();
+  });
+
+  it("refuses keys that are not its own", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tickets-test-"));
+    await fs.writeFile(path.join(dir, "secret.txt"), "secret");
+    const store = new FileTicketStore(path.join(dir, "tickets.json"));
+    expect(await store.readAttachment("../secret.txt")).toBeUndefined();
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * @file Ticket persistence for the Customer Service MCP App.
+ *
+ * Every submission is stored through a {@link TicketStore} and receives a
+ * stable, human-friendly ID such as `CS-000123`. Two backends ship with
+ * the app:
+ * - `file`   — a JSON document on disk (survives restarts)
+ * - `memory` — process-local storage, handy for tests and demos
+ *
+ * Attachment contents are kept apart from the tickets — one file each in a
+ * directory next to the JSON document — so the document stays small.
+ */
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StorageConfig } from "./config.js";
+import { PersistentState } from "./persistence.js";
+
+export interface Ticket {
+  /** Human-friendly ID, e.g. CS-000123 */
+  id: string;
+  name: string;
+  issue: string;
+  /** Lifecycle status, one of AppConfig.lifecycle.statuses */
+  status: string;
+  priority: string;
+  category: string;
+  /** Team member currently responsible for the ticket */
+  assignee?: string;
+  /** Name of the API key the ticket was submitted with, when auth is on */
+  submittedBy?: string;
+  /** Submitter's locale, e.g. "de-AT" — emails to them use its language */
+  locale?: string;
+  /** Submitter's IANA time zone, for dates in emails to them */
+  timeZone?: string;
+  /** Labels added by routing and triage rules */
+  tags?: string[];
+  /** The routing rules that matched and where they sent the ticket */
+  routing?: TicketRouting;
+  /** What triage suggested at submission, next to what the submitter chose */
+  triage?: TicketTriage;
+  /** Sensitive data taken out of the name, issue and custom fields */
+  redactions?: TicketRedaction[];
+  /** SLA warnings and breaches already escalated, so each is sent once */
+  slaEscalations?: SlaEscalation[];
+  /** Replies, customer messages and internal notes, oldest first */
+  comments?: TicketComment[];
+  /** Values of the configured custom fields, keyed by FieldConfig.key */
+  customFields: Record<string, string>;
+  /** Files uploaded through "attachment" fields */
+  attachments: Attachment[];
+  /** ISO timestamp of the submission */
+  createdAt: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+  /** Every change to the tracked fields, oldest first */
+  history: TicketChange[];
+}
+
+export interface TicketRouting {
+  /** Names of the rules applied, in order */
+  rules: string[];
+  /** Recipients replacing `supportEmail` — empty to keep it */
+  to: string[];
+  cc: string[];
+}
+
+export interface TicketTriage {
+  suggested: { category?: string; priority?: string; tags: string[] };
+  /** The values the ticket was opened with: submitted, from routing, or the defaults */
+  chosen: { category: string; priority: string };
+}
+
+/** Sensitive data replaced in one field before it was stored. */
+export interface TicketRedaction {
+  /** "name", "issue", a custom field key, or "body" for a comment */
+  field: string;
+  /** The rule that found it */
+  rule: string;
+  action: "mask" | "hash";
+  count: number;
+}
+
+/** Internal notes are only shown to agents and never emailed. */
+export type CommentVisibility = "public" | "internal";
+
+/** One entry in a ticket's conversation. */
+export interface TicketComment {
+  /** Sequence number within the ticket, from 1 */
+  id: number;
+  /** Name of the person who wrote it */
+  author: string;
+  /** Team replies are emailed to the customer, customer comments to the team */
+  from: "team" | "customer";
+  visibility: CommentVisibility;
+  body: string;
+  createdAt: string;
+  /** Message-ID of the email carrying the comment */
+  messageId?: string;
+  /** Message-ID of the email it answers, for threading */
+  inReplyTo?: string;
+  /** Names of the files that came with it, stored in `Ticket.attachments` */
+  attachments?: string[];
+  /** Sensitive data taken out of the body */
+  redactions?: TicketRedaction[];
+}
+
+export type SlaMetric = "firstResponse" | "resolution";
+
+/** An SLA warning or breach the team has been told about. */
+export interface SlaEscalation {
+  metric: SlaMetric;
+  /** The SLA policy, e.g. "High / Billing" */
+  policy: string;
+  level: "warning" | "breach";
+  dueAt: string;
+  escalatedAt: string;
+}
+
+export interface Attachment {
+  /** Key of the attachment field the file was uploaded through, or "email" */
+  field: string;
+  /** The comment the file arrived with, if not with the submission */
+  commentId?: number;
+  filename: string;
+  mimeType: string;
+  /** Decoded size in bytes */
+  size: number;
+  /** Key of the contents in the store, see {@link TicketStore.readAttachment} */
+  blob: string;
+}
+
+/** An attachment with its contents, before it is stored or when it is sent. */
+export type AttachmentFile = Omit<Attachment, "blob"> & {
+  /** File contents, base64-encoded */
+  data: string;
+};
+
+/** A ticket as shown to tools and channels — attachment storage keys left out. */
+export type TicketView = Omit<Ticket, "attachments"> & {
+  attachments: Omit<Attachment, "blob">[];
+};
+
+/** Ticket properties whose changes are recorded in the history. */
+export type TrackedField = "status" | "priority" | "category" | "assignee";
+
+export interface TicketChange {
+  field: TrackedField;
+  /** Previous value — null when the field was unset (or on creation) */
+  from: string | null;
+  /** New value — null when the field was cleared */
+  to: string | null;
+  /** Who made the change */
+  changedBy: string;
+  /** ISO timestamp of the change */
+  changedAt: string;
+  /** Optional explanation supplied with the change */
+  note?: string;
+}
+
+/** Fields supplied when opening a ticket — the store assigns the rest. */
+export type NewTicket = Omit<Ticket, "id" | "createdAt" | "updatedAt" | "history">;
+
+/** Criteria for narrowing a ticket listing. Every criterion is optional. */
+export interface TicketFilter {
+  status?: string;
+  priority?: string;
+  category?: string;
+  /** Submitter email address (matched case-insensitively) */
+  email?: string;
+  /** Only tickets created at or after this ISO date/time */
+  createdAfter?: string;
+  /** Only tickets created at or before this ISO date/time */
+  createdBefore?: string;
+  /** Only tickets carrying this routing tag */
+  tag?: string;
+}
+
+export interface TicketPage {
+  total: number;
+  offset: number;
+  limit: number;
+  tickets: TicketView[];
+}
+
+/**
+ * Told about every stored ticket change: `previous` is undefined for a new
+ * ticket. Listeners get the stored values and must not modify them.
+ */
+export type TicketListener = (ticket: Ticket, previous: Ticket | undefined) => void;
+
+export interface TicketStore {
+  /** Persist a new ticket and return it with its assigned ID. */
+  create(input: NewTicket): Promise<Ticket>;
+  /** Look up a ticket by ID (case-insensitive). */
+  get(id: string): Promise<Ticket | undefined>;
+  /** All tickets, oldest first. */
+  list(): Promise<Ticket[]>;
+  /**
+   * Change a ticket in place. `apply` receives a copy of the ticket; if it
+   * throws, the stored ticket is left untouched. Resolves to undefined when
+   * no ticket has the given ID.
+   */
+  update(id: string, apply: (ticket: Ticket) => void): Promise<Ticket | undefined>;
+  /** Call `listener` after every create and update. Returns a function that stops it. */
+  watch(listener: TicketListener): () => void;
+  /** Keep a file's base64 contents apart from the tickets. Resolves to its key. */
+  saveAttachment(data: string): Promise<string>;
+  /** The base64 contents saved under `blob`, or undefined when they are gone. */
+  readAttachment(blob: string): Promise<string | undefined>;
+}
+
+interface StoreState {
+  nextSequence: number;
+  tickets: Ticket[];
+}
+
+/**
+ * Format a sequence number as a ticket ID: `formatTicketId("CS", 123)`
+ * returns `CS-000123`.
+ */
+export function formatTicketId(prefix: string, sequence: number): string {
+  return `${prefix}-${String(sequence).padStart(6, "0")}`;
+}
+
+function findIndex(state: StoreState, id: string): number {
+  const wanted = id.trim().toUpperCase();
+  return state.tickets.findIndex((t) => t.id.toUpperCase() === wanted);
+}
+
+/**
+ * Strip attachment storage keys from a ticket; tools and channels only see
+ * file names and sizes.
+ */
+export function toTicketView(ticket: Ticket): TicketView {
+  return {
+    ...ticket,
+    attachments: ticket.attachments.map(({ blob: _, ...meta }) => meta),
+  };
+}
+
+/**
+ * Save the contents of new files in the store, returning the attachments to
+ * put on the ticket.
+ */
+export async function storeAttachments(store: TicketStore, files: AttachmentFile[]): Promise<Attachment[]> {
+  const stored: Attachment[] = [];
+  for (const { data, ...meta } of files) {
+    stored.push({ ...meta, blob: await store.saveAttachment(data) });
+  }
+  return stored;
+}
+
+/**
+ * Load the contents of a ticket's attachments, e.g. to email them. Files
+ * whose contents are gone are left out with a warning rather than holding
+ * up the delivery.
+ */
+export async function loadAttachments(store: TicketStore, attachments: Attachment[]): Promise<AttachmentFile[]> {
+  const files: AttachmentFile[] = [];
+  for (const { blob, ...meta } of attachments) {
+    const data = await store.readAttachment(blob);
+    if (data === undefined) {
+      console.error(`Attachment ${meta.filename} (${blob}) is missing from the ticket store.`);
+      continue;
+    }
+    files.push({ ...meta, data });
+  }
+  return files;
+}
+
+/**
+ * Check a ticket against a filter. Date bounds accept either a plain date
+ * (`2024-05-01`) or a full ISO timestamp.
+ *
+ * @param emailField - Custom field holding the submitter's email address
+ *   (`AppConfig.acknowledgement.emailField`)
+ */
+export function matchesFilter(ticket: Ticket, filter: TicketFilter, emailField = "email"): boolean {
+  if (filter.status && ticket.status !== filter.status) return false;
+  if (filter.priority && ticket.priority !== filter.priority) return false;
+  if (filter.category && ticket.category !== filter.category) return false;
+  if (
+    filter.email &&
+    ticket.customFields[emailField]?.toLowerCase() !== filter.email.toLowerCase()
+  ) {
+    return false;
+  }
+  if (filter.tag && !ticket.tags?.includes(filter.tag)) return false;
+
+  const created = Date.parse(ticket.createdAt);
+  if (filter.createdAfter && created < Date.parse(filter.createdAfter)) {
+    return false;
+  }
+  if (filter.createdBefore && created > endOfDay(filter.createdBefore)) {
+    return false;
+  }
+  return true;
+}
+
+/** A bare date as an upper bound covers the whole of that day. */
+function endOfDay(value: string): number {
+  const time = Date.parse(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 86_399_999 : time;
+}
+
+/**
+ * Full-text search over the ticket's name, issue and custom field values.
+ * Every whitespace-separated term must appear (case-insensitively); results
+ * are ranked by how often the terms occur, newest first on ties.
+ */
+export function searchTickets(tickets: Ticket[], query: string): Ticket[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const scored: { ticket: Ticket; score: number }[] = [];
+  for (const ticket of tickets) {
+    const haystack = [
+      ticket.name,
+      ticket.issue,
+      ...Object.values(ticket.customFields),
+    ]
+      .join("\n")
+      .toLowerCase();
+
+    let score = 0;
+    for (const term of terms) {
+      const hits = haystack.split(term).length - 1;
+      if (hits === 0) {
+        score = 0;
+        break;
+      }
+      score += hits;
+    }
+    if (score > 0) scored.push({ ticket, score });
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.ticket.createdAt.localeCompare(a.ticket.createdAt),
+    )
+    .map((s) => s.ticket);
+}
+
+/** Slice a list of tickets into a page of ticket views. */
+export function paginate(
+  tickets: Ticket[],
+  offset: number,
+  limit: number,
+): TicketPage {
+  return {
+    total: tickets.length,
+    offset,
+    limit,
+    tickets: tickets.slice(offset, offset + limit).map(toTicketView),
+  };
+}
+
+/**
+ * Ticket store on top of {@link PersistentState}. The exported memory and
+ * file backends only differ in whether a file path is given, and in where
+ * attachment contents are kept.
+ */
+abstract class StateTicketStore implements TicketStore {
+  private readonly state: PersistentState<StoreState>;
+  private readonly listeners = new Set<TicketListener>();
+
+  constructor(
+    protected readonly idPrefix: string,
+    filePath?: string,
+  ) {
+    this.state = new PersistentState(() => ({ nextSequence: 1, tickets: [] }), filePath);
+  }
+
+  abstract saveAttachment(data: string): Promise<string>;
+  abstract readAttachment(blob: string): Promise<string | undefined>;
+
+  // Creation is serialised, so concurrent tool calls never share an ID
+  async create(input: NewTicket): Promise<Ticket> {
+    const created = await this.state.mutate((state) => {
+      const now = new Date().toISOString();
+      const ticket: Ticket = {
+        id: formatTicketId(this.idPrefix, state.nextSequence++),
+        ...structuredClone(input),
+        createdAt: now,
+        updatedAt: now,
+        history: [
+          { field: "status", from: null, to: input.status, changedBy: input.name, changedAt: now },
+          ...(input.assignee
+            ? [{
+                field: "assignee" as const,
+                from: null,
+                to: input.assignee,
+                changedBy: input.routing ? "routing" : input.name,
+                changedAt: now,
+                ...(input.routing && { note: `Rules: ${input.routing.rules.join(", ")}` }),
+              }]
+            : []),
+        ],
+      };
+      state.tickets.push(ticket);
+      return structuredClone(ticket);
+    });
+    this.notify(created, undefined);
+    return created;
+  }
+
+  async get(id: string): Promise<Ticket | undefined> {
+    return this.state.read((state) => {
+      const index = findIndex(state, id);
+      return index < 0 ? undefined : structuredClone(state.tickets[index]);
+    });
+  }
+
+  async list(): Promise<Ticket[]> {
+    return this.state.read((state) => structuredClone(state.tickets));
+  }
+
+  async update(
+    id: string,
+    apply: (ticket: Ticket) => void,
+  ): Promise<Ticket | undefined> {
+    const change = await this.state.mutate((state) => {
+      const index = findIndex(state, id);
+      if (index < 0) return undefined;
+
+      const previous = state.tickets[index];
+      const ticket = structuredClone(previous);
+      apply(ticket);
+      ticket.updatedAt = new Date().toISOString();
+      state.tickets[index] = ticket;
+      return { ticket: structuredClone(ticket), previous: structuredClone(previous) };
+    });
+    if (!change) return undefined;
+    this.notify(change.ticket, change.previous);
+    return change.ticket;
+  }
+
+  watch(listener: TicketListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A failing listener must not fail the change, which is already stored
+  private notify(ticket: Ticket, previous: Ticket | undefined): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(ticket, previous);
+      } catch (error) {
+        console.error("Ticket listener failed:", error);
+      }
+    }
+  }
+}
+
+/** Process-local ticket store, handy for tests and demos. */
+export class MemoryTicketStore extends StateTicketStore {
+  private readonly blobs = new Map<string, string>();
+
+  constructor(idPrefix = "CS") {
+    super(idPrefix);
+  }
+
+  async saveAttachment(data: string): Promise<string> {
+    const blob = randomUUID();
+    this.blobs.set(blob, data);
+    return blob;
+  }
+
+  async readAttachment(blob: string): Promise<string | undefined> {
+    return this.blobs.get(blob);
+  }
+}
+
+/**
+ * Ticket store backed by a JSON file. Attachments are written one file
+ * each to a directory beside it: `data/tickets.json` keeps them in
+ * `data/tickets-attachments/`.
+ */
+export class FileTicketStore extends StateTicketStore {
+  private readonly attachmentDir: string;
+
+  constructor(filePath: string, idPrefix = "CS") {
+    super(idPrefix, filePath);
+    const { dir, name } = path.parse(filePath);
+    this.attachmentDir = path.join(dir, `${name}-attachments`);
+  }
+
+  // Written under a temporary name first, so a crash never leaves half a file
+  async saveAttachment(data: string): Promise<string> {
+    const blob = randomUUID();
+    const file = path.join(this.attachmentDir, blob);
+    await fs.mkdir(this.attachmentDir, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, Buffer.from(data, "base64"));
+    await fs.rename(`${file}.tmp`, file);
+    return blob;
+  }
+
+  async readAttachment(blob: string): Promise<string | undefined> {
+    // Keys are UUIDs; anything else must not reach the file system
+    if (!/^[0-9a-f-]+$/i.test(blob)) return undefined;
+    try {
+      return (await fs.readFile(path.join(this.attachmentDir, blob))).toString("base64");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+}
+
+const openStores = new Map<string, TicketStore>();
+
+/**
+ * Return the ticket store described by the storage config. Stores are
+ * shared per backend and path, so the per-request servers created by the
+ * stateless HTTP transport all see the same tickets. In-memory stores are
+ * keyed by path too, so tenants with their own paths never share one.
+ */
+export function openTicketStore(storage: StorageConfig): TicketStore {
+  const file = path.resolve(storage.path);
+  const key =
+    storage.type === "file" ? `file:${file}` : `memory:${file}:${storage.idPrefix}`;
+
+  let store = openStores.get(key);
+  if (!store) {
+    store =
+      storage.type === "file"
+        ? new FileTicketStore(file, storage.idPrefix)
+        : new MemoryTicketStore(storage.idPrefix);
+    openStores.set(key, store);
+  }
+  return store;
+}
@@ -0,0 +1,234 @@
+/**
+ * @file Offline triage suggestions for new tickets.
+ *
+ * Suggests a category, priority and tags for an issue description without
+ * any network call, from two sources:
+ * - `triage.rules` — keywords and regular expressions that vote for a
+ *   category or priority and suggest tags
+ * - a naive-Bayes model trained on the issue text of past tickets, which
+ *   fills in what no rule decides once enough tickets are stored
+ * The form asks for suggestions while the issue is typed, and each new
+ * ticket records what was suggested next to what the submitter chose.
+ */
+import type { AppConfig, TriageRule } from "./config.js";
+import type { Ticket, TicketStore } from "./tickets.js";
+
+export interface TriageValue {
+  value: string;
+  /** 0–1: the share of matching rule weight, or the model's probability */
+  confidence: number;
+  source: "rules" | "model";
+}
+
+export interface TriageSuggestion {
+  category?: TriageValue;
+  priority?: TriageValue;
+  tags: string[];
+  /** Names of the rules that matched */
+  rules: string[];
+}
+
+/** The per-field models learned from past tickets. */
+export interface TriageModel {
+  category: NaiveBayes;
+  priority: NaiveBayes;
+}
+
+/** Words too common to say anything about a ticket. */
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "all", "any", "can", "had", "her",
+  "was", "one", "our", "out", "has", "have", "him", "his", "how", "its", "may", "now", "see",
+  "who", "did", "get", "got", "let", "she", "too", "use", "this", "that", "with", "from",
+  "they", "them", "then", "than", "there", "their", "what", "when", "which", "will", "would",
+  "been", "were", "into", "just", "also", "some", "very", "please", "thanks", "thank", "hello",
+]);
+
+/** Lower-cased words of three letters or more, without stop words. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 2 && !STOP_WORDS.has(word),
+  );
+}
+
+/** Multinomial naive Bayes over word counts, with add-one smoothing. */
+export class NaiveBayes {
+  private readonly documents = new Map<string, number>();
+  private readonly counts = new Map<string, Map<string, number>>();
+  private readonly totals = new Map<string, number>();
+  private readonly vocabulary = new Set<string>();
+  private examples = 0;
+
+  /** Number of documents trained on. */
+  get size(): number {
+    return this.examples;
+  }
+
+  train(tokens: string[], label: string): void {
+    this.examples++;
+    this.documents.set(label, (this.documents.get(label) ?? 0) + 1);
+    const counts = this.counts.get(label) ?? new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      this.vocabulary.add(token);
+    }
+    this.counts.set(label, counts);
+    this.totals.set(label, (this.totals.get(label) ?? 0) + tokens.length);
+  }
+
+  /**
+   * Probability of each of `labels` seen in training, most likely first.
+   * Empty when none of the words were seen: the priors alone would only
+   * repeat the most common label.
+   */
+  classify(tokens: string[], labels: string[]): { label: string; probability: number }[] {
+    const known = tokens.filter((token) => this.vocabulary.has(token));
+    if (known.length === 0) return [];
+
+    const scores = labels
+      .filter((label) => this.documents.has(label))
+      .map((label) => {
+        const counts = this.counts.get(label) ?? new Map<string, number>();
+        const denominator = (this.totals.get(label) ?? 0) + this.vocabulary.size;
+        let score = Math.log((this.documents.get(label) ?? 0) / this.examples);
+        for (const token of known) score += Math.log(((counts.get(token) ?? 0) + 1) / denominator);
+        return { label, score };
+      });
+    if (scores.length === 0) return [];
+
+    // Back from log space without underflow
+    const max = Math.max(...scores.map((s) => s.score));
+    const weights = scores.map((s) => ({ label: s.label, weight: Math.exp(s.score - max) }));
+    const sum = weights.reduce((total, w) => total + w.weight, 0);
+    return weights
+      .map((w) => ({ label: w.label, probability: w.weight / sum }))
+      .sort((a, b) => b.probability - a.probability);
+  }
+}
+
+/**
+ * Whether a ticket's category or priority was set on purpose and can be
+ * learned from: anything but the default, or a value the team changed.
+ * Tickets left at the default would teach the model the very habit the
+ * suggestions are meant to break.
+ */
+function deliberate(ticket: Ticket, field: "category" | "priority", fallback: string): boolean {
+  return ticket[field] !== fallback || ticket.history.some((change) => change.field === field);
+}
+
+/** Train the category and priority models on past tickets' issue text. */
+export function trainTriageModel(config: AppConfig, tickets: Ticket[]): TriageModel {
+  const model: TriageModel = { category: new NaiveBayes(), priority: new NaiveBayes() };
+  for (const ticket of tickets) {
+    const tokens = tokenize(ticket.issue);
+    if (tokens.length === 0) continue;
+    if (deliberate(ticket, "category", config.defaultCategory)) model.category.train(tokens, ticket.category);
+    if (deliberate(ticket, "priority", config.defaultPriority)) model.priority.train(tokens, ticket.priority);
+  }
+  return model;
+}
+
+const models = new WeakMap<TicketStore, { defaults: string; model?: TriageModel }>();
+
+/**
+ * The model for a store's tickets, trained on first use and again after
+ * the store changes.
+ */
+export async function triageModel(config: AppConfig, store: TicketStore): Promise<TriageModel> {
+  let cached = models.get(store);
+  if (!cached) {
+    const entry: { defaults: string; model?: TriageModel } = { defaults: "" };
+    store.watch(() => {
+      entry.model = undefined;
+    });
+    models.set(store, entry);
+    cached = entry;
+  }
+
+  // Which tickets count as examples depends on the defaults
+  const defaults = `${config.defaultCategory}\n${config.defaultPriority}`;
+  if (!cached.model || cached.defaults !== defaults) {
+    cached.model = trainTriageModel(config, await store.list());
+    cached.defaults = defaults;
+  }
+  return cached.model;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whether a rule's keywords or patterns occur in the issue. */
+function ruleMatches(rule: TriageRule, issue: string): boolean {
+  const keyword = (rule.keywords ?? []).some((k) =>
+    new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(k.trim()).replace(/\s+/g, "\\s+")}(?![\\p{L}\\p{N}])`,
+      "iu",
+    ).test(issue),
+  );
+  return keyword || (rule.patterns ?? []).some((p) => new RegExp(p, "iu").test(issue));
+}
+
+/** The value with the most rule weight behind it. */
+function strongest(votes: Map<string, number>): TriageValue | undefined {
+  let best: [string, number] | undefined;
+  let total = 0;
+  for (const [value, weight] of votes) {
+    total += weight;
+    if (!best || weight > best[1]) best = [value, weight];
+  }
+  return best && { value: best[0], confidence: best[1] / total, source: "rules" };
+}
+
+function likeliest(model: NaiveBayes | undefined, tokens: string[], labels: string[], minExamples: number) {
+  if (!model || model.size < minExamples) return undefined;
+  const [top] = model.classify(tokens, labels);
+  return top && { value: top.label, confidence: top.probability, source: "model" as const };
+}
+
+/**
+ * Suggest a category, priority and tags for an issue. Rules decide where
+ * they match; the model, when given and trained on at least
+ * `triage.minExamples` tickets, fills in the rest. Values less certain
+ * than `triage.minConfidence` are left out.
+ */
+export function suggestTriage(config: AppConfig, issue: string, model?: TriageModel): TriageSuggestion {
+  const { rules, minExamples, minConfidence } = config.triage;
+  const categories = new Map<string, number>();
+  const priorities = new Map<string, number>();
+  const tags: string[] = [];
+  const matched: string[] = [];
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, issue)) continue;
+    matched.push(rule.name);
+    const weight = rule.weight ?? 1;
+    if (rule.category) categories.set(rule.category, (categories.get(rule.category) ?? 0) + weight);
+    if (rule.priority) priorities.set(rule.priority, (priorities.get(rule.priority) ?? 0) + weight);
+    for (const tag of rule.tags ?? []) {
+      if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    }
+  }
+
+  const tokens = tokenize(issue);
+  const category =
+    strongest(categories) ?? likeliest(model?.category, tokens, config.categories, minExamples);
+  const priority =
+    strongest(priorities) ?? likeliest(model?.priority, tokens, config.priorities, minExamples);
+
+  return {
+    ...(category && category.confidence >= minConfidence && { category }),
+    ...(priority && priority.confidence >= minConfidence && { priority }),
+    tags,
+    rules: matched,
+  };
+}
+
+/** Suggestions for an issue, with the model of the store's tickets if `triage.learn` is on. */
+export async function triageIssue(
+  config: AppConfig,
+  store: TicketStore,
+  issue: string,
+): Promise<TriageSuggestion> {
+  const model = config.triage.learn ? await triageModel(config, store) : undefined;
+  return suggestTriage(config, issue, model);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { FieldConfig } from "./config.js";
+import { fieldStates, validateField } from "./validation.js";
+
+function field(key: string, extra: Partial<FieldConfig> = {}): FieldConfig {
+  return { key, label: key, type: "text", placeholder: "", required: false, ...extra };
+}
+
+const fields: FieldConfig[] = [
+  field("email", { type: "email", required: true }),
+  field("plan", { type: "select", options: ["Free", "Pro"], visibleWhen: { categories: ["Billing"] } }),
+  field("invoiceNumber", { visibleWhen: { fields: { plan: ["Pro"] } }, requiredWhen: { priorities: ["High"] } }),
+  field("appVersion", { requiredWhen: { categories: ["Technical Support"] } }),
+];
+
+describe("fieldStates", () => {
+  it("shows conditional fields only when their condition holds", () => {
+    const states = fieldStates(fields, { category: "billing", priority: "Medium", values: { plan: "pro" } });
+    expect(states).toEqual({
+      email: { visible: true, required: true },
+      plan: { visible: true, required: false },
+      invoiceNumber: { visible: true, required: false },
+      appVersion: { visible: true, required: false },
+    });
+  });
+
+  it("hides fields that depend on a hidden field", () => {
+    const states = fieldStates(fields, { category: "General Inquiry", priority: "High", values: { plan: "Pro" } });
+    expect(states.plan).toEqual({ visible: false, required: false });
+    expect(states.invoiceNumber).toEqual({ visible: false, required: false });
+  });
+
+  it("requires fields whose requiredWhen holds, if visible", () => {
+    const states = fieldStates(fields, { category: "Technical Support", priority: "Medium", values: {} });
+    expect(states.appVersion).toEqual({ visible: true, required: true });
+    const billing = fieldStates(fields, { category: "Billing", priority: "High", values: { plan: "Pro" } });
+    expect(billing.invoiceNumber).toEqual({ visible: true, required: true });
+  });
+});
+
+describe("validateField", () => {
+  it("checks email addresses", () => {
+    expect(validateField(fields[0], "ada@example.com")).toBeUndefined();
+    expect(validateField(fields[0], "not an address")).toBeDefined();
+  });
+});
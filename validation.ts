@@ -0,0 +1,290 @@
+/**
+ * @file Field validation shared by the server and the React UI.
+ *
+ * {@link buildFieldSchema} turns a FieldConfig into a Zod schema. The server
+ * uses it for the tool's input schema and the UI runs the very same schema
+ * to show inline errors, so both sides always agree on what is valid.
+ * Messages are English unless a translator for the user's locale is given.
+ * {@link fieldStates} decides, on both sides alike, which conditional
+ * fields are shown and required for the answers given so far.
+ */
+import { z } from "zod";
+import type { AttachmentRules, FieldCondition, FieldConfig } from "./config.js";
+import { fieldLabel, translateEnglish, type Translate } from "./i18n.js";
+
+/** An uploaded file as sent in the tool arguments. */
+export interface AttachmentInput {
+  filename: string;
+  mimeType: string;
+  /** File contents, base64-encoded */
+  data: string;
+}
+
+/** What attachment checks need to know about a file. */
+export interface AttachmentInfo {
+  filename: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/** The answers field conditions are checked against. */
+export interface FormAnswers {
+  category: string;
+  priority: string;
+  /** Custom field values, keyed by FieldConfig.key */
+  values: Record<string, unknown>;
+}
+
+/** Whether a field is shown and required for the current answers. */
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+}
+
+export const DEFAULT_ATTACHMENT_RULES: AttachmentRules = {
+  maxSizeBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+  allowedTypes: [],
+};
+
+/** Digits with optional +, spaces, dashes, dots and parentheses. */
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** The attachment limits of a field, with defaults filled in. */
+export function attachmentRules(field: FieldConfig): AttachmentRules {
+  return { ...DEFAULT_ATTACHMENT_RULES, ...field.attachments };
+}
+
+/** Decoded size of a base64 string, in bytes. */
+export function base64Size(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/** Human-readable byte count, e.g. 5 MB. */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function matchesMimeType(mimeType: string, allowed: string[]): boolean {
+  if (allowed.length === 0) return true;
+  const type = mimeType.toLowerCase();
+  return allowed.some((pattern) => {
+    const p = pattern.toLowerCase();
+    return p.endsWith("/*") ? type.startsWith(p.slice(0, -1)) : type === p;
+  });
+}
+
+/**
+ * Check the files chosen for an attachment field against its limits.
+ * Returns the first problem found, or undefined when all files are fine.
+ */
+export function checkAttachments(
+  field: FieldConfig,
+  files: AttachmentInfo[],
+  t: Translate = translateEnglish,
+): string | undefined {
+  const rules = attachmentRules(field);
+  const label = fieldLabel(t, field);
+
+  if (files.length === 0) {
+    return field.required ? t("validation.required", { label }) : undefined;
+  }
+  if (files.length > rules.maxFiles) {
+    return t("validation.maxFiles", { label, count: rules.maxFiles });
+  }
+  for (const file of files) {
+    if (!matchesMimeType(file.mimeType, rules.allowedTypes)) {
+      return t("validation.fileType", { filename: file.filename, types: rules.allowedTypes.join(", ") });
+    }
+    if (file.size > rules.maxSizeBytes) {
+      return t("validation.fileSize", { filename: file.filename, size: formatBytes(rules.maxSizeBytes) });
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the Zod schema for an attachment field: a list of base64-encoded
+ * files, checked against the field's count, size and type limits.
+ */
+export function buildAttachmentSchema(field: FieldConfig): z.ZodType<AttachmentInput[]> {
+  const file = z.object({
+    filename: z.string().min(1).describe("File name, e.g. screenshot.png"),
+    mimeType: z.string().min(1).describe("MIME type, e.g. image/png"),
+    data: z.base64().describe("File contents, base64-encoded"),
+  });
+
+  return z.array(file).superRefine((files, ctx) => {
+    const info = files.map((f) => ({ ...f, size: base64Size(f.data) }));
+    const message = checkAttachments(field, info);
+    if (message) ctx.addIssue({ code: "custom", message });
+  });
+}
+
+/** Whether a string looks like a deliverable email address. */
+export function isValidEmail(value: string): boolean {
+  return z.regexes.email.test(value);
+}
+
+/**
+ * Build the Zod schema for a non-empty value of a configured field.
+ * Whether the field may be left out is up to the caller.
+ */
+export function buildFieldSchema(field: FieldConfig, t: Translate = translateEnglish): z.ZodType<string> {
+  const rules = field.validation ?? {};
+  const label = fieldLabel(t, field);
+
+  if (field.type === "select" && field.options && field.options.length > 0) {
+    return z.enum(field.options as [string, ...string[]], {
+      error: t("validation.oneOf", { label, options: field.options.join(", ") }),
+    });
+  }
+
+  let schema = z.string();
+
+  if (rules.minLength !== undefined) {
+    schema = schema.min(rules.minLength, t("validation.minLength", { label, count: rules.minLength }));
+  }
+  if (rules.maxLength !== undefined) {
+    schema = schema.max(rules.maxLength, t("validation.maxLength", { label, count: rules.maxLength }));
+  }
+  if (rules.pattern) {
+    schema = schema.regex(
+      new RegExp(rules.pattern),
+      rules.patternMessage !== undefined
+        ? t(`field.${field.key}.patternMessage`, { label }, rules.patternMessage)
+        : t("validation.pattern", { label }),
+    );
+  }
+
+  const format =
+    rules.format ??
+    (field.type === "email" ? "email" : field.type === "tel" ? "phone" : undefined);
+  if (format === "email") {
+    schema = schema.regex(z.regexes.email, t("validation.email", { label }));
+  } else if (format === "phone") {
+    schema = schema.regex(PHONE_PATTERN, t("validation.phone", { label }));
+  }
+
+  if (field.type !== "number") return schema;
+
+  const { min, max } = rules;
+  return schema
+    .regex(NUMBER_PATTERN, t("validation.number", { label }))
+    .refine((v) => min === undefined || Number(v) >= min, t("validation.min", { label, min }))
+    .refine((v) => max === undefined || Number(v) <= max, t("validation.max", { label, max }));
+}
+
+/**
+ * Validate a raw form value. Returns the first error message, or undefined
+ * when the value is acceptable. Empty optional fields are always valid.
+ */
+export function validateField(
+  field: FieldConfig,
+  value: string,
+  t: Translate = translateEnglish,
+): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return field.required ? t("validation.required", { label: fieldLabel(t, field) }) : undefined;
+
+  const result = buildFieldSchema(field, t).safeParse(trimmed);
+  return result.success ? undefined : result.error.issues[0]?.message;
+}
+
+function includesIgnoringCase(list: string[], value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  const wanted = value.trim().toLowerCase();
+  return list.some((v) => v.toLowerCase() === wanted);
+}
+
+/** Check a field condition against the answers. */
+export function matchesCondition(condition: FieldCondition, answers: FormAnswers): boolean {
+  if (condition.categories && !includesIgnoringCase(condition.categories, answers.category)) return false;
+  if (condition.priorities && !includesIgnoringCase(condition.priorities, answers.priority)) return false;
+  return Object.entries(condition.fields ?? {}).every(([key, allowed]) =>
+    includesIgnoringCase(allowed, answers.values[key]),
+  );
+}
+
+/**
+ * Work out which fields are shown and required for the answers. A hidden
+ * field counts as unanswered, so fields that depend on it may be hidden in
+ * turn.
+ */
+export function fieldStates(fields: FieldConfig[], answers: FormAnswers): Record<string, FieldState> {
+  const hidden = new Set<string>();
+  const current = (): FormAnswers => ({
+    ...answers,
+    values: Object.fromEntries(Object.entries(answers.values).filter(([key]) => !hidden.has(key))),
+  });
+
+  // Hiding only ever removes answers, so this settles after a few passes
+  for (let changed = true; changed; ) {
+    changed = false;
+    const visibleAnswers = current();
+    for (const field of fields) {
+      if (!hidden.has(field.key) && field.visibleWhen && !matchesCondition(field.visibleWhen, visibleAnswers)) {
+        hidden.add(field.key);
+        changed = true;
+      }
+    }
+  }
+
+  const visibleAnswers = current();
+  return Object.fromEntries(
+    fields.map((field) => {
+      const visible = !hidden.has(field.key);
+      const required =
+        visible &&
+        (field.required || (!!field.requiredWhen && matchesCondition(field.requiredWhen, visibleAnswers)));
+      return [field.key, { visible, required }];
+    }),
+  );
+}
+
+function describeCondition(condition: FieldCondition): string {
+  const parts: string[] = [];
+  if (condition.categories) parts.push(`category is ${condition.categories.join(" or ")}`);
+  if (condition.priorities) parts.push(`priority is ${condition.priorities.join(" or ")}`);
+  for (const [key, values] of Object.entries(condition.fields ?? {})) {
+    parts.push(`${key} is ${values.join(" or ")}`);
+  }
+  return parts.join(" and ");
+}
+
+/**
+ * Describe a field's rules in words, so the model calling the tool knows
+ * what will be accepted.
+ */
+export function describeField(field: FieldConfig): string {
+  const rules = field.validation ?? {};
+  const hints: string[] = [];
+
+  if (field.type === "attachment") {
+    const limits = attachmentRules(field);
+    hints.push(`up to ${limits.maxFiles} files of at most ${formatBytes(limits.maxSizeBytes)} each`);
+    if (limits.allowedTypes.length > 0) hints.push(`types: ${limits.allowedTypes.join(", ")}`);
+  }
+  if (field.type === "select" && field.options?.length) {
+    hints.push(`one of: ${field.options.join(", ")}`);
+  }
+  if (field.type === "email" || rules.format === "email") hints.push("email address");
+  if (field.type === "tel" || rules.format === "phone") hints.push("phone number");
+  if (field.type === "number") hints.push("number");
+  if (rules.min !== undefined) hints.push(`min ${rules.min}`);
+  if (rules.max !== undefined) hints.push(`max ${rules.max}`);
+  if (rules.minLength !== undefined) hints.push(`at least ${rules.minLength} characters`);
+  if (rules.maxLength !== undefined) hints.push(`at most ${rules.maxLength} characters`);
+  if (rules.pattern) hints.push(`matching /${rules.pattern}/`);
+  if (field.visibleWhen) {
+    hints.push(`only when ${describeCondition(field.visibleWhen)}${field.required ? ", and then required" : ""}`);
+  }
+  if (field.requiredWhen) hints.push(`required when ${describeCondition(field.requiredWhen)}`);
+
+  return hints.length > 0 ? `${field.label} (${hints.join("; ")})` : field.label;
+}
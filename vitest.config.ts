@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Separate from vite.config.ts, which builds the UI and needs INPUT set
+export default defineConfig({
+  test: {
+    include: ["*.test.ts"],
+    environment: "node",
+  },
+});